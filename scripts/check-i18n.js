@@ -0,0 +1,75 @@
+/* eslint-disable @typescript-eslint/no-var-requires */
+/**
+ * Checks the renderer's i18n catalogs:
+ * - every catalog has the same keys as the English one
+ * - every literal t('...') key used in the source exists in English
+ *
+ * Usage: npm run check:i18n
+ */
+const fs = require('fs');
+const path = require('path');
+
+const RENDERER_SRC = path.join(__dirname, '..', 'src', 'renderer', 'src');
+const LOCALES_DIR = path.join(RENDERER_SRC, 'i18n', 'locales');
+const SOURCE_EXTENSIONS = ['.ts', '.tsx'];
+// t('key') or t("key"), optionally followed by params
+const KEY_PATTERN = /\bt\(\s*['"]([\w.-]+)['"]/g;
+
+function flattenKeys(catalog, prefix = '') {
+  return Object.entries(catalog).flatMap(([key, value]) => {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    return typeof value === 'object' ? flattenKeys(value, fullKey) : [fullKey];
+  });
+}
+
+function listSourceFiles(dir) {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return listSourceFiles(fullPath);
+    return SOURCE_EXTENSIONS.includes(path.extname(entry.name)) ? [fullPath] : [];
+  });
+}
+
+function loadCatalogs() {
+  return fs.readdirSync(LOCALES_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => ({
+      language: path.basename(file, '.json'),
+      keys: new Set(flattenKeys(JSON.parse(fs.readFileSync(path.join(LOCALES_DIR, file), 'utf8')))),
+    }));
+}
+
+function main() {
+  const catalogs = loadCatalogs();
+  const english = catalogs.find((catalog) => catalog.language === 'en');
+  const problems = [];
+
+  catalogs
+    .filter((catalog) => catalog !== english)
+    .forEach(({ language, keys }) => {
+      english.keys.forEach((key) => {
+        if (!keys.has(key)) problems.push(`${language}: missing "${key}"`);
+      });
+      keys.forEach((key) => {
+        if (!english.keys.has(key)) problems.push(`${language}: unknown key "${key}"`);
+      });
+    });
+
+  listSourceFiles(RENDERER_SRC).forEach((file) => {
+    const source = fs.readFileSync(file, 'utf8');
+    Array.from(source.matchAll(KEY_PATTERN), (match) => match[1]).forEach((key) => {
+      if (!english.keys.has(key)) {
+        problems.push(`${path.relative(RENDERER_SRC, file)}: "${key}" is not in en.json`);
+      }
+    });
+  });
+
+  if (problems.length > 0) {
+    problems.forEach((problem) => console.error(problem));
+    console.error(`\n${problems.length} i18n problem(s) found`);
+    process.exit(1);
+  }
+  console.log(`i18n catalogs OK (${english.keys.size} keys, ${catalogs.length} languages)`);
+}
+
+main();
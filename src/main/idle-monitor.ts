@@ -0,0 +1,87 @@
+import { BrowserWindow, ipcMain, powerMonitor } from 'electron';
+
+export interface SystemIdleChange {
+  idle: boolean;
+  // How long the user was away, in seconds; on going idle, how long so far
+  idleSeconds: number;
+}
+
+// How often the system idle time is read while watching
+const POLL_INTERVAL_MS = 5000;
+
+/**
+ * Tells the renderer when the user leaves the computer and comes back,
+ * from the system idle time and screen lock, sleep and resume
+ */
+export class IdleMonitor {
+  // Seconds without input after which the user counts as away, 0 when not watching
+  private thresholdSeconds = 0;
+
+  private idle = false;
+
+  // When the user was last seen before going idle
+  private idleSince = 0;
+
+  private pollTimer: NodeJS.Timeout | null = null;
+
+  constructor(private getWindow: () => BrowserWindow | null) {
+    this.setupIPC();
+    this.setupPowerEvents();
+  }
+
+  private setupIPC(): void {
+    ipcMain.on('set-system-idle-threshold', (_event, seconds: number) => {
+      this.setThreshold(seconds);
+    });
+  }
+
+  private setupPowerEvents(): void {
+    const goIdle = () => {
+      if (this.thresholdSeconds > 0) this.setIdle(true, Date.now());
+    };
+    const comeBack = () => {
+      if (this.thresholdSeconds > 0) this.setIdle(false, Date.now());
+    };
+    powerMonitor.on('lock-screen', goIdle);
+    powerMonitor.on('suspend', goIdle);
+    powerMonitor.on('unlock-screen', comeBack);
+    powerMonitor.on('resume', comeBack);
+  }
+
+  private setThreshold(seconds: number): void {
+    this.thresholdSeconds = Math.max(0, seconds);
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.idle = false;
+    if (this.thresholdSeconds === 0) return;
+    this.pollTimer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+  }
+
+  private poll(): void {
+    const idleSeconds = powerMonitor.getSystemIdleTime();
+    if (!this.idle && idleSeconds >= this.thresholdSeconds) {
+      this.setIdle(true, Date.now() - idleSeconds * 1000);
+    } else if (this.idle && idleSeconds < this.thresholdSeconds) {
+      this.setIdle(false, Date.now() - idleSeconds * 1000);
+    }
+  }
+
+  /**
+   * @param at - When the user left, or when they came back
+   */
+  private setIdle(idle: boolean, at: number): void {
+    if (this.idle === idle) return;
+    this.idle = idle;
+    if (idle) this.idleSince = at;
+    const change: SystemIdleChange = {
+      idle,
+      idleSeconds: Math.max(0, Math.round(((idle ? Date.now() : at) - this.idleSince) / 1000)),
+    };
+    const window = this.getWindow();
+    if (window && !window.isDestroyed()) {
+      window.webContents.send('system-idle-changed', change);
+    }
+  }
+}
@@ -3,11 +3,19 @@ import { app, ipcMain, globalShortcut } from "electron";
 import { electronApp, optimizer } from "@electron-toolkit/utils";
 import { WindowManager } from "./window-manager";
 import { MenuManager } from "./menu-manager";
+import { LocalAssetManager, registerLocalAssetScheme } from "./local-asset-manager";
+import { ShortcutManager } from "./shortcut-manager";
+import { IdleMonitor } from "./idle-monitor";
 
 let windowManager: WindowManager;
 let menuManager: MenuManager;
+let localAssetManager: LocalAssetManager;
+let shortcutManager: ShortcutManager;
+let idleMonitor: IdleMonitor;
 let isQuitting = false;
 
+registerLocalAssetScheme();
+
 function setupIPC(): void {
   ipcMain.handle("get-platform", () => process.platform);
 
@@ -63,6 +71,7 @@ app.whenReady().then(() => {
 
   windowManager = new WindowManager();
   menuManager = new MenuManager((mode) => windowManager.setWindowMode(mode));
+  localAssetManager = new LocalAssetManager();
 
   const window = windowManager.createWindow({
     titleBarOverlay: {
@@ -72,6 +81,8 @@ app.whenReady().then(() => {
     },
   });
   menuManager.createTray();
+  shortcutManager = new ShortcutManager(() => windowManager.getWindow());
+  idleMonitor = new IdleMonitor(() => windowManager.getWindow());
 
   window.on("close", (event) => {
     if (!isQuitting) {
@@ -0,0 +1,213 @@
+import {
+  app, BrowserWindow, dialog, ipcMain, net, protocol,
+} from 'electron';
+import { createHash } from 'crypto';
+import {
+  existsSync, readFileSync, writeFileSync,
+} from 'fs';
+import { readdir, stat } from 'fs/promises';
+import {
+  basename, dirname, extname, join, resolve, sep,
+} from 'path';
+import { pathToFileURL } from 'url';
+
+export const LOCAL_ASSET_SCHEME = 'local-asset';
+
+export interface LocalAsset {
+  kind: 'model' | 'background';
+  name: string;
+  url: string;
+}
+
+/**
+ * What one URL host serves: a model's folder, or a single background image
+ */
+interface AssetRoot {
+  path: string;
+  singleFile: boolean;
+}
+
+const MODEL_FILE_PATTERN = /\.model3?\.json$/i;
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp', '.gif'];
+// How deep to look for the model file inside an opened folder
+const MODEL_SEARCH_DEPTH = 2;
+
+/**
+ * Must run before the app is ready, so the scheme can be fetched like http
+ */
+export function registerLocalAssetScheme(): void {
+  protocol.registerSchemesAsPrivileged([{
+    scheme: LOCAL_ASSET_SCHEME,
+    privileges: {
+      standard: true,
+      secure: true,
+      supportFetchAPI: true,
+      corsEnabled: true,
+      stream: true,
+    },
+  }]);
+}
+
+async function findModelFile(dir: string, depth = MODEL_SEARCH_DEPTH): Promise<string | null> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const modelFile = entries.find((entry) => entry.isFile() && MODEL_FILE_PATTERN.test(entry.name));
+  if (modelFile) return join(dir, modelFile.name);
+  if (depth === 0) return null;
+
+  // eslint-disable-next-line no-restricted-syntax
+  for (const entry of entries.filter((item) => item.isDirectory())) {
+    // eslint-disable-next-line no-await-in-loop
+    const found = await findModelFile(join(dir, entry.name), depth - 1);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Serves models from folders the user picked and backgrounds from single
+ * images the user picked, and only those
+ */
+export class LocalAssetManager {
+  // What the renderer may read, keyed by the URL host that serves it
+  private roots = new Map<string, AssetRoot>();
+
+  private storePath = join(app.getPath('userData'), 'local-assets.json');
+
+  constructor() {
+    this.loadRoots();
+    this.setupProtocol();
+    this.setupIPC();
+  }
+
+  private loadRoots(): void {
+    if (!existsSync(this.storePath)) return;
+    try {
+      const stored: Record<string, AssetRoot> = JSON.parse(readFileSync(this.storePath, 'utf8'));
+      Object.entries(stored).forEach(([host, root]) => this.roots.set(host, root));
+    } catch (error) {
+      console.error('Failed to read local asset roots:', error);
+    }
+  }
+
+  private saveRoots(): void {
+    try {
+      writeFileSync(this.storePath, JSON.stringify(Object.fromEntries(this.roots), null, 2));
+    } catch (error) {
+      console.error('Failed to save local asset roots:', error);
+    }
+  }
+
+  private setupProtocol(): void {
+    protocol.handle(LOCAL_ASSET_SCHEME, (request) => {
+      const { host, pathname } = new URL(request.url);
+      const root = this.roots.get(host);
+      if (!root) return new Response('Not found', { status: 404 });
+
+      if (root.singleFile) {
+        const file = resolve(dirname(root.path), `.${decodeURIComponent(pathname)}`);
+        if (file !== root.path) return new Response('Forbidden', { status: 403 });
+        return net.fetch(pathToFileURL(file).toString());
+      }
+      const file = resolve(root.path, `.${decodeURIComponent(pathname)}`);
+      if (!file.startsWith(root.path + sep)) {
+        return new Response('Forbidden', { status: 403 });
+      }
+      return net.fetch(pathToFileURL(file).toString());
+    });
+  }
+
+  private setupIPC(): void {
+    ipcMain.handle('open-local-model', async (event, folder: boolean) => {
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const options: Electron.OpenDialogOptions = folder
+        ? { properties: ['openDirectory'] }
+        : {
+          properties: ['openFile'],
+          filters: [{ name: 'Live2D Model', extensions: ['json'] }],
+        };
+      const result = window
+        ? await dialog.showOpenDialog(window, options)
+        : await dialog.showOpenDialog(options);
+      if (result.canceled || result.filePaths.length === 0) return null;
+      return this.addAsset(result.filePaths[0]);
+    });
+
+    ipcMain.handle('open-local-background', async (event) => {
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const options: Electron.OpenDialogOptions = {
+        properties: ['openFile'],
+        filters: [{ name: 'Images', extensions: IMAGE_EXTENSIONS.map((ext) => ext.slice(1)) }],
+      };
+      const result = window
+        ? await dialog.showOpenDialog(window, options)
+        : await dialog.showOpenDialog(options);
+      if (result.canceled || result.filePaths.length === 0) return null;
+      return this.addAsset(result.filePaths[0]);
+    });
+
+    // Paths of files dropped onto the window. Page scripts can send any path
+    // here, so nothing is served before the user confirms it in a main-process dialog.
+    ipcMain.handle('add-local-asset', async (event, path: string) => {
+      if (typeof path !== 'string' || !path) return null;
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const options: Electron.MessageBoxOptions = {
+        type: 'question',
+        buttons: ['Add', 'Cancel'],
+        defaultId: 0,
+        cancelId: 1,
+        message: `Add "${basename(path)}" to the local library?`,
+        detail: path,
+      };
+      const { response } = window
+        ? await dialog.showMessageBox(window, options)
+        : await dialog.showMessageBox(options);
+      if (response !== 0) return null;
+      return this.addAsset(path);
+    });
+
+    ipcMain.on('remove-local-asset', (_event, url: string) => {
+      const { host } = new URL(url);
+      if (this.roots.delete(host)) this.saveRoots();
+    });
+  }
+
+  /**
+   * Serve the folder of a model file, or a single background image
+   * @param path - Model file, folder containing a model, or image
+   * @returns The asset, or null if the path is neither a model nor an image
+   */
+  private async addAsset(path: string): Promise<LocalAsset | null> {
+    try {
+      const file = (await stat(path)).isDirectory() ? await findModelFile(path) : path;
+      if (!file) return null;
+
+      let kind: LocalAsset['kind'];
+      if (MODEL_FILE_PATTERN.test(file)) {
+        kind = 'model';
+      } else if (IMAGE_EXTENSIONS.includes(extname(file).toLowerCase())) {
+        kind = 'background';
+      } else {
+        return null;
+      }
+
+      // Models load their textures and motions relative to the model file
+      const root: AssetRoot = kind === 'model'
+        ? { path: dirname(file), singleFile: false }
+        : { path: file, singleFile: true };
+      const host = createHash('sha256').update(root.path).digest('hex').slice(0, 16);
+      this.roots.set(host, root);
+      this.saveRoots();
+
+      return {
+        kind,
+        name: kind === 'model'
+          ? basename(file).replace(MODEL_FILE_PATTERN, '')
+          : basename(file),
+        url: `${LOCAL_ASSET_SCHEME}://${host}/${encodeURIComponent(basename(file))}`,
+      };
+    } catch (error) {
+      console.error('Failed to add local asset:', path, error);
+      return null;
+    }
+  }
+}
@@ -112,6 +112,12 @@ export class MenuManager {
           event.sender.send('toggle-scroll-to-resize');
         },
       },
+      {
+        label: 'Reset Position and Scale',
+        click: () => {
+          event.sender.send('reset-model-transform');
+        },
+      },
       // Only show this item in pet mode
       ...(this.currentMode === 'pet'
         ? [
@@ -0,0 +1,139 @@
+import {
+  app, BrowserWindow, globalShortcut, ipcMain,
+} from 'electron';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+export type ShortcutAction = 'push-to-talk' | 'mic-toggle' | 'interrupt' | 'raise-hand' | 'toggle-window';
+
+// Electron accelerator for each action, empty when unbound
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export interface ShortcutState {
+  bindings: ShortcutBindings;
+  // Actions whose accelerator is invalid or taken by another application
+  failed: ShortcutAction[];
+}
+
+// Unbound by default, so the app never steals keys the user did not give it
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  'push-to-talk': '',
+  'mic-toggle': '',
+  interrupt: '',
+  'raise-hand': '',
+  'toggle-window': '',
+};
+
+// Global shortcuts report no key-up, so push-to-talk toggles on each press.
+// Presses this soon after the previous one are a held key's auto-repeat;
+// this outlasts the longest repeat delay Windows offers.
+const PUSH_TO_TALK_REPEAT_MS = 1200;
+
+/**
+ * Registers the user's global shortcuts and forwards them to the renderer
+ */
+export class ShortcutManager {
+  private bindings: ShortcutBindings = { ...DEFAULT_SHORTCUTS };
+
+  private failed: ShortcutAction[] = [];
+
+  // When the push-to-talk shortcut last fired, held or not
+  private lastPushToTalk = 0;
+
+  private storePath = join(app.getPath('userData'), 'shortcuts.json');
+
+  constructor(private getWindow: () => BrowserWindow | null) {
+    this.loadBindings();
+    this.registerAll();
+    this.setupIPC();
+  }
+
+  private loadBindings(): void {
+    if (!existsSync(this.storePath)) return;
+    try {
+      const stored: Partial<ShortcutBindings> = JSON.parse(readFileSync(this.storePath, 'utf8'));
+      this.bindings = { ...DEFAULT_SHORTCUTS, ...stored };
+    } catch (error) {
+      console.error('Failed to read shortcuts:', error);
+    }
+  }
+
+  private saveBindings(): void {
+    try {
+      writeFileSync(this.storePath, JSON.stringify(this.bindings, null, 2));
+    } catch (error) {
+      console.error('Failed to save shortcuts:', error);
+    }
+  }
+
+  private setupIPC(): void {
+    ipcMain.handle('get-shortcuts', (): ShortcutState => this.getState());
+
+    ipcMain.handle('set-shortcuts', (_event, bindings: ShortcutBindings): ShortcutState => {
+      // Before the old accelerators are forgotten, or they would stay registered
+      this.unregisterAll();
+      this.bindings = { ...DEFAULT_SHORTCUTS, ...bindings };
+      this.saveBindings();
+      this.registerAll();
+      return this.getState();
+    });
+  }
+
+  private getState(): ShortcutState {
+    return { bindings: { ...this.bindings }, failed: [...this.failed] };
+  }
+
+  private registerAll(): void {
+    this.failed = (Object.keys(this.bindings) as ShortcutAction[]).filter((action) => {
+      const accelerator = this.bindings[action];
+      if (!accelerator) return false;
+      try {
+        return !globalShortcut.register(accelerator, () => this.trigger(action));
+      } catch (error) {
+        console.error(`Invalid accelerator for ${action}:`, accelerator, error);
+        return true;
+      }
+    });
+
+    if (this.failed.length > 0) {
+      console.warn('Failed to register shortcuts:', this.failed);
+    }
+  }
+
+  private unregisterAll(): void {
+    Object.values(this.bindings).forEach((accelerator) => {
+      if (accelerator && globalShortcut.isRegistered(accelerator)) {
+        globalShortcut.unregister(accelerator);
+      }
+    });
+  }
+
+  private trigger(action: ShortcutAction): void {
+    const window = this.getWindow();
+    if (!window || window.isDestroyed()) return;
+
+    switch (action) {
+      case 'toggle-window':
+        if (window.isVisible()) {
+          window.hide();
+        } else {
+          window.show();
+        }
+        break;
+      case 'push-to-talk':
+        this.pressPushToTalk(window);
+        break;
+      default:
+        window.webContents.send('global-shortcut', action);
+    }
+  }
+
+  private pressPushToTalk(window: BrowserWindow): void {
+    const now = Date.now();
+    const repeated = now - this.lastPushToTalk < PUSH_TO_TALK_REPEAT_MS;
+    this.lastPushToTalk = now;
+    if (!repeated) {
+      window.webContents.send('global-shortcut', 'push-to-talk');
+    }
+  }
+}
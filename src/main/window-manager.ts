@@ -1,11 +1,71 @@
 import {
-  BrowserWindow, screen, shell, ipcMain,
+  app, BrowserWindow, Display, Rectangle, screen, shell, ipcMain,
 } from 'electron';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
 import { join } from 'path';
 import { is } from '@electron-toolkit/utils';
 
 const isMac = process.platform === 'darwin';
 
+// How often the desktop cursor is sampled for the model's gaze, in ms
+const CURSOR_POLL_INTERVAL = 33;
+
+// How close to a screen edge or the taskbar the model snaps to it, in pixels
+const SNAP_DISTANCE = 24;
+
+// How much of the model stays on screen however far it is dragged, in pixels
+const MIN_VISIBLE_SIZE = 80;
+
+/**
+ * Display the pet was last placed on. Display ids can change when monitors
+ * are reconnected, so the bounds are kept to recognise it again.
+ */
+interface PetDisplayState {
+  id: number;
+  bounds: Rectangle;
+}
+
+/**
+ * Where the model should go after a drag, relative to the pet window,
+ * with the window size it was placed in
+ */
+export interface PetPlacement {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const clamp = (value: number, min: number, max: number): number => Math.min(Math.max(value, min), max);
+
+/**
+ * Snap a rectangle to the edges of the work area, which excludes the taskbar,
+ * and keep part of it inside
+ */
+function snapToWorkArea(rect: Rectangle, workArea: Rectangle): { x: number; y: number } {
+  const right = workArea.x + workArea.width;
+  const bottom = workArea.y + workArea.height;
+  let { x, y } = rect;
+
+  if (Math.abs(x - workArea.x) <= SNAP_DISTANCE) {
+    x = workArea.x;
+  } else if (Math.abs(x + rect.width - right) <= SNAP_DISTANCE) {
+    x = right - rect.width;
+  }
+  if (Math.abs(y - workArea.y) <= SNAP_DISTANCE) {
+    y = workArea.y;
+  } else if (Math.abs(y + rect.height - bottom) <= SNAP_DISTANCE) {
+    y = bottom - rect.height;
+  }
+
+  const visibleWidth = Math.min(MIN_VISIBLE_SIZE, rect.width);
+  const visibleHeight = Math.min(MIN_VISIBLE_SIZE, rect.height);
+  return {
+    x: clamp(x, workArea.x - rect.width + visibleWidth, right - visibleWidth),
+    y: clamp(y, workArea.y - rect.height + visibleHeight, bottom - visibleHeight),
+  };
+}
+
 export class WindowManager {
   private window: BrowserWindow | null = null;
 
@@ -20,7 +80,22 @@ export class WindowManager {
 
   private currentMode: 'window' | 'pet' = 'window';
 
+  private cursorTimer: NodeJS.Timeout | null = null;
+
+  private lastCursor: { x: number; y: number } | null = null;
+
+  // Display the pet window covers right now
+  private petDisplayId: number | null = null;
+
+  // Display the user last put the pet on, restored when it comes back
+  private savedPetDisplay: PetDisplayState | null = null;
+
+  private statePath = join(app.getPath('userData'), 'window-state.json');
+
   constructor() {
+    this.loadPetDisplay();
+    this.setupDisplayEvents();
+
     ipcMain.on('renderer-ready-for-mode-change', (_event, newMode) => {
       if (newMode === 'pet') {
         setTimeout(() => {
@@ -33,6 +108,16 @@ export class WindowManager {
       this.window?.setOpacity(1);
     });
 
+    ipcMain.on('set-cursor-tracking', (_event, enabled: boolean) => {
+      if (enabled) {
+        this.startCursorTracking();
+      } else {
+        this.stopCursorTracking();
+      }
+    });
+
+    ipcMain.handle('place-pet-model', (_event, rect: Rectangle) => this.placePetModel(rect));
+
     ipcMain.on('window-unfullscreen', () => {
       const window = this.getWindow();
       if (window && window.isFullScreen()) {
@@ -139,6 +224,9 @@ export class WindowManager {
   private setWindowModeWindow(): void {
     if (!this.window) return;
 
+    this.stopCursorTracking();
+    this.petDisplayId = null;
+
     this.window.setAlwaysOnTop(false);
     this.window.setIgnoreMouseEvents(false);
     this.window.setSkipTaskbar(false);
@@ -183,7 +271,8 @@ export class WindowManager {
     this.window.setBackgroundColor('#00000000');
 
     this.window.setAlwaysOnTop(true, 'screen-saver');
-    this.window.setPosition(0, 0);
+    const { x, y } = this.getPetDisplay().workArea;
+    this.window.setPosition(x, y);
 
     this.window.webContents.send('pre-mode-changed', 'pet');
   }
@@ -191,27 +280,158 @@ export class WindowManager {
   private continueSetWindowModePet(): void {
     if (!this.window) return;
 
-    const { width, height } = screen.getPrimaryDisplay().workAreaSize;
-
-    this.window.setSize(width, height);
+    this.fitToDisplay(this.getPetDisplay());
 
     if (isMac) this.window.setWindowButtonVisibility(false);
     this.window.setResizable(false);
     this.window.setSkipTaskbar(true);
     this.window.setFocusable(false);
 
+    // Mouse moves are forwarded so the renderer can hit-test the model's pixels
+    this.window.setIgnoreMouseEvents(true, { forward: true });
     if (isMac) {
-      this.window.setIgnoreMouseEvents(true);
       this.window.setVisibleOnAllWorkspaces(true, {
         visibleOnFullScreen: true,
       });
-    } else {
-      this.window.setIgnoreMouseEvents(true, { forward: true });
     }
 
     this.window.webContents.send('mode-changed', 'pet');
   }
 
+  private loadPetDisplay(): void {
+    if (!existsSync(this.statePath)) return;
+    try {
+      const state = JSON.parse(readFileSync(this.statePath, 'utf8'));
+      this.savedPetDisplay = state.petDisplay ?? null;
+    } catch (error) {
+      console.error('Failed to read window state:', error);
+    }
+  }
+
+  private savePetDisplay(display: Display): void {
+    this.savedPetDisplay = { id: display.id, bounds: display.bounds };
+    try {
+      writeFileSync(this.statePath, JSON.stringify({ petDisplay: this.savedPetDisplay }, null, 2));
+    } catch (error) {
+      console.error('Failed to save window state:', error);
+    }
+  }
+
+  private isSavedPetDisplay(display: Display): boolean {
+    const saved = this.savedPetDisplay;
+    if (!saved) return false;
+    if (display.id === saved.id) return true;
+    const { bounds } = display;
+    return bounds.x === saved.bounds.x && bounds.y === saved.bounds.y
+      && bounds.width === saved.bounds.width && bounds.height === saved.bounds.height;
+  }
+
+  /**
+   * The remembered display if it is connected, otherwise the primary one
+   */
+  private getPetDisplay(): Display {
+    return screen.getAllDisplays().find((display) => this.isSavedPetDisplay(display))
+      ?? screen.getPrimaryDisplay();
+  }
+
+  private fitToDisplay(display: Display): void {
+    if (!this.window) return;
+    this.petDisplayId = display.id;
+    this.window.setBounds(display.workArea);
+  }
+
+  /**
+   * Keep the pet window on a connected display as monitors come and go
+   */
+  private setupDisplayEvents(): void {
+    screen.on('display-removed', (_event, display) => {
+      if (this.currentMode !== 'pet' || display.id !== this.petDisplayId) return;
+      // Keep the saved display, so the pet returns once it is plugged back in
+      this.fitToDisplay(screen.getPrimaryDisplay());
+    });
+
+    screen.on('display-added', (_event, display) => {
+      if (this.currentMode !== 'pet' || !this.isSavedPetDisplay(display)) return;
+      this.fitToDisplay(display);
+    });
+
+    screen.on('display-metrics-changed', (_event, display) => {
+      if (this.currentMode !== 'pet' || display.id !== this.petDisplayId) return;
+      this.fitToDisplay(display);
+    });
+  }
+
+  /**
+   * Place the model after a drag: move the pet window to the display the
+   * model was dropped on and snap the model to its edges
+   * @param rect - Model bounds relative to the pet window
+   * @returns The new model position, or null outside pet mode
+   */
+  private placePetModel(rect: Rectangle): PetPlacement | null {
+    if (!this.window || this.currentMode !== 'pet') return null;
+
+    const windowBounds = this.window.getBounds();
+    const screenRect = {
+      ...rect,
+      x: rect.x + windowBounds.x,
+      y: rect.y + windowBounds.y,
+    };
+    const display = screen.getDisplayNearestPoint({
+      x: Math.round(screenRect.x + screenRect.width / 2),
+      y: Math.round(screenRect.y + screenRect.height / 2),
+    });
+
+    if (display.id !== this.petDisplayId) {
+      this.fitToDisplay(display);
+    }
+    if (!this.isSavedPetDisplay(display)) {
+      this.savePetDisplay(display);
+    }
+
+    const { workArea } = display;
+    const { x, y } = snapToWorkArea(screenRect, workArea);
+    return {
+      x: x - workArea.x,
+      y: y - workArea.y,
+      width: workArea.width,
+      height: workArea.height,
+    };
+  }
+
+  /**
+   * Stream the desktop cursor to the renderer, relative to the window,
+   * since pointer events only arrive while the cursor is over the window
+   */
+  private startCursorTracking(): void {
+    if (this.cursorTimer) return;
+
+    this.cursorTimer = setInterval(() => {
+      const window = this.getWindow();
+      if (!window || window.isDestroyed()) {
+        this.stopCursorTracking();
+        return;
+      }
+
+      const point = screen.getCursorScreenPoint();
+      if (this.lastCursor?.x === point.x && this.lastCursor?.y === point.y) return;
+      this.lastCursor = point;
+
+      const bounds = window.getBounds();
+      window.webContents.send('cursor-position', {
+        x: point.x - bounds.x,
+        y: point.y - bounds.y,
+      });
+    }, CURSOR_POLL_INTERVAL);
+  }
+
+  private stopCursorTracking(): void {
+    if (this.cursorTimer) {
+      clearInterval(this.cursorTimer);
+      this.cursorTimer = null;
+    }
+    this.lastCursor = null;
+  }
+
   getWindow(): BrowserWindow | null {
     return this.window;
   }
@@ -264,11 +484,7 @@ export class WindowManager {
 
     if (this.window) {
       const shouldIgnore = this.hoveringComponents.size === 0;
-      if (isMac) {
-        this.window.setIgnoreMouseEvents(shouldIgnore);
-      } else {
-        this.window.setIgnoreMouseEvents(shouldIgnore, { forward: true });
-      }
+      this.window.setIgnoreMouseEvents(shouldIgnore, { forward: true });
       if (!shouldIgnore) {
         this.window.setFocusable(true);
       }
@@ -1,5 +1,25 @@
 import { ElectronAPI } from '@electron-toolkit/preload';
 
+interface PetPlacement {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+type ShortcutAction = 'push-to-talk' | 'mic-toggle' | 'interrupt' | 'raise-hand' | 'toggle-window'
+
+interface ShortcutState {
+  bindings: Record<ShortcutAction, string>
+  failed: ShortcutAction[]
+}
+
+interface LocalAsset {
+  kind: 'model' | 'background'
+  name: string
+  url: string
+}
+
 declare global {
   interface Window {
     electron: ElectronAPI
@@ -13,6 +33,19 @@ declare global {
       onToggleInputSubtitle: (callback: () => void) => void
       onToggleScrollToResize: (callback: () => void) => void
       onSwitchCharacter: (callback: (filename: string) => void) => void
+      setCursorTracking: (enabled: boolean) => void
+      onCursorPosition: (callback: (position: { x: number, y: number }) => void) => () => void
+      getShortcuts: () => Promise<ShortcutState>
+      setShortcuts: (bindings: Record<ShortcutAction, string>) => Promise<ShortcutState>
+      onGlobalShortcut: (callback: (action: ShortcutAction) => void) => () => void
+      setSystemIdleThreshold: (seconds: number) => void
+      onSystemIdleChanged: (callback: (change: { idle: boolean, idleSeconds: number }) => void) => () => void
+      placePetModel: (rect: PetPlacement) => Promise<PetPlacement | null>
+      openLocalModel: (folder: boolean) => Promise<LocalAsset | null>
+      openLocalBackground: () => Promise<LocalAsset | null>
+      addLocalAsset: (path: string) => Promise<LocalAsset | null>
+      removeLocalAsset: (url: string) => void
+      getPathForFile: (file: File) => string
     }
   }
 }
@@ -1,7 +1,9 @@
 /* eslint-disable @typescript-eslint/ban-ts-comment */
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, ipcRenderer, webUtils } from 'electron';
 import { electronAPI } from '@electron-toolkit/preload';
 import { ConfigFile } from '../main/menu-manager';
+import { ShortcutAction, ShortcutBindings } from '../main/shortcut-manager';
+import { SystemIdleChange } from '../main/idle-monitor';
 
 const api = {
   setIgnoreMouseEvents: (ignore: boolean) => {
@@ -42,10 +44,43 @@ const api = {
     ipcRenderer.on('switch-character', handler);
     return () => ipcRenderer.removeListener('switch-character', handler);
   },
+  setCursorTracking: (enabled: boolean) => {
+    ipcRenderer.send('set-cursor-tracking', enabled);
+  },
+  onCursorPosition: (callback: (position: { x: number; y: number }) => void) => {
+    const handler = (_event: any, position: { x: number; y: number }) => callback(position);
+    ipcRenderer.on('cursor-position', handler);
+    return () => ipcRenderer.removeListener('cursor-position', handler);
+  },
+  // Model bounds relative to the window; resolves to where the model should go
+  placePetModel: (rect: { x: number; y: number; width: number; height: number }) => ipcRenderer.invoke('place-pet-model', rect),
+  getShortcuts: () => ipcRenderer.invoke('get-shortcuts'),
+  setShortcuts: (bindings: ShortcutBindings) => ipcRenderer.invoke('set-shortcuts', bindings),
+  onGlobalShortcut: (callback: (action: ShortcutAction) => void) => {
+    const handler = (_event: any, action: ShortcutAction) => callback(action);
+    ipcRenderer.on('global-shortcut', handler);
+    return () => ipcRenderer.removeListener('global-shortcut', handler);
+  },
+  setSystemIdleThreshold: (seconds: number) => {
+    ipcRenderer.send('set-system-idle-threshold', seconds);
+  },
+  onSystemIdleChanged: (callback: (change: SystemIdleChange) => void) => {
+    const handler = (_event: any, change: SystemIdleChange) => callback(change);
+    ipcRenderer.on('system-idle-changed', handler);
+    return () => ipcRenderer.removeListener('system-idle-changed', handler);
+  },
   getConfigFiles: () => ipcRenderer.invoke('get-config-files'),
   updateConfigFiles: (files: ConfigFile[]) => {
     ipcRenderer.send('update-config-files', files);
   },
+  openLocalModel: (folder: boolean) => ipcRenderer.invoke('open-local-model', folder),
+  openLocalBackground: () => ipcRenderer.invoke('open-local-background'),
+  addLocalAsset: (path: string) => ipcRenderer.invoke('add-local-asset', path),
+  // Stops serving the asset's folder, so only call it once nothing else uses the folder
+  removeLocalAsset: (url: string) => {
+    ipcRenderer.send('remove-local-asset', url);
+  },
+  getPathForFile: (file: File) => webUtils.getPathForFile(file),
 };
 
 if (process.contextIsolated) {
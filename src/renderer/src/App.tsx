@@ -23,6 +23,10 @@ import { Live2DModelProvider } from './context/live2d-model-context';
 import { InputSubtitle } from './components/electron/input-subtitle';
 import { ProactiveSpeakProvider } from './context/proactive-speak-context';
 import { ScreenCaptureProvider } from './context/screen-capture-context';
+import { VisionProvider } from './context/vision-context';
+import { TTSSettingsProvider } from './context/tts-settings-context';
+import { I18nProvider } from './context/i18n-context';
+import { LocalAssetProvider } from './context/local-asset-context';
 
 function App(): JSX.Element {
   const [showSidebar, setShowSidebar] = useState(true);
@@ -68,72 +72,80 @@ function App(): JSX.Element {
 
   return (
     <ChakraProvider value={defaultSystem}>
-      <Live2DModelProvider>
-        <CameraProvider>
-          <ScreenCaptureProvider>
-            <ChatHistoryProvider>
-              <AiStateProvider>
-                <ProactiveSpeakProvider>
-                  <CharacterConfigProvider>
-                    <Live2DConfigProvider>
-                      <SubtitleProvider>
-                        <VADProvider>
-                          <BgUrlProvider>
-                            <WebSocketHandler>
-                              <Toaster />
-                              {mode === 'window' ? (
-                                <>
-                                  {isElectron && <TitleBar />}
-                                  <Flex {...layoutStyles.appContainer}>
-                                    <Box
-                                      {...layoutStyles.sidebar}
-                                      {...(!showSidebar && { width: '24px' })}
-                                    >
-                                      <Sidebar
-                                        isCollapsed={!showSidebar}
-                                        onToggle={() => setShowSidebar(!showSidebar)}
-                                      />
-                                    </Box>
-                                    <Box {...layoutStyles.mainContent}>
-                                      {/* <Box {...layoutStyles.canvas}> */}
-                                      <Canvas />
-                                      {/* <InputSubtitle isPet={false} /> */}
-                                      {/* </Box> */}
-                                      <Box
-                                        {...layoutStyles.footer}
-                                        {...(isFooterCollapsed
-                                          && layoutStyles.collapsedFooter)}
-                                      >
-                                        <Footer
-                                          isCollapsed={isFooterCollapsed}
-                                          onToggle={() => setIsFooterCollapsed(
-                                            !isFooterCollapsed,
+      <I18nProvider>
+        <Live2DModelProvider>
+          <CameraProvider>
+            <ScreenCaptureProvider>
+              <VisionProvider>
+                <ChatHistoryProvider>
+                  <AiStateProvider>
+                    <ProactiveSpeakProvider>
+                      <CharacterConfigProvider>
+                        <Live2DConfigProvider>
+                          <LocalAssetProvider>
+                            <SubtitleProvider>
+                              <VADProvider>
+                                <BgUrlProvider>
+                                  <WebSocketHandler>
+                                    <TTSSettingsProvider>
+                                      <Toaster />
+                                      {mode === 'window' ? (
+                                        <>
+                                          {isElectron && <TitleBar />}
+                                          <Flex {...layoutStyles.appContainer}>
+                                            <Box
+                                              {...layoutStyles.sidebar}
+                                              {...(!showSidebar && { width: '24px' })}
+                                            >
+                                              <Sidebar
+                                                isCollapsed={!showSidebar}
+                                                onToggle={() => setShowSidebar(!showSidebar)}
+                                              />
+                                            </Box>
+                                            <Box {...layoutStyles.mainContent}>
+                                              {/* <Box {...layoutStyles.canvas}> */}
+                                              <Canvas />
+                                              {/* <InputSubtitle isPet={false} /> */}
+                                              {/* </Box> */}
+                                              <Box
+                                                {...layoutStyles.footer}
+                                                {...(isFooterCollapsed
+                                                  && layoutStyles.collapsedFooter)}
+                                              >
+                                                <Footer
+                                                  isCollapsed={isFooterCollapsed}
+                                                  onToggle={() => setIsFooterCollapsed(
+                                                    !isFooterCollapsed,
+                                                  )}
+                                                />
+                                              </Box>
+                                            </Box>
+                                          </Flex>
+                                        </>
+                                      ) : (
+                                        <>
+                                          <Live2D isPet={mode === 'pet'} />
+                                          {mode === 'pet' && (
+                                            <InputSubtitle isPet={mode === 'pet'} />
                                           )}
-                                        />
-                                      </Box>
-                                    </Box>
-                                  </Flex>
-                                </>
-                              ) : (
-                                <>
-                                  <Live2D isPet={mode === 'pet'} />
-                                  {mode === 'pet' && (
-                                    <InputSubtitle isPet={mode === 'pet'} />
-                                  )}
-                                </>
-                              )}
-                            </WebSocketHandler>
-                          </BgUrlProvider>
-                        </VADProvider>
-                      </SubtitleProvider>
-                    </Live2DConfigProvider>
-                  </CharacterConfigProvider>
-                </ProactiveSpeakProvider>
-              </AiStateProvider>
-            </ChatHistoryProvider>
-          </ScreenCaptureProvider>
-        </CameraProvider>
-      </Live2DModelProvider>
+                                        </>
+                                      )}
+                                    </TTSSettingsProvider>
+                                  </WebSocketHandler>
+                                </BgUrlProvider>
+                              </VADProvider>
+                            </SubtitleProvider>
+                          </LocalAssetProvider>
+                        </Live2DConfigProvider>
+                      </CharacterConfigProvider>
+                    </ProactiveSpeakProvider>
+                  </AiStateProvider>
+                </ChatHistoryProvider>
+              </VisionProvider>
+            </ScreenCaptureProvider>
+          </CameraProvider>
+        </Live2DModelProvider>
+      </I18nProvider>
     </ChakraProvider>
   );
 }
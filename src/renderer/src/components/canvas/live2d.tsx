@@ -1,10 +1,18 @@
-import { memo } from "react";
+import { memo, DragEvent } from "react";
 import { useLive2DConfig } from "@/context/live2d-config-context";
 import { useIpcHandlers } from "@/hooks/utils/use-ipc-handlers";
+import { useGlobalShortcuts } from "@/hooks/utils/use-global-shortcuts";
 import { useLive2DModel } from "@/hooks/canvas/use-live2d-model";
 import { useLive2DResize } from "@/hooks/canvas/use-live2d-resize";
 import { useInterrupt } from "@/hooks/utils/use-interrupt";
 import { useAudioTask } from "@/hooks/utils/use-audio-task";
+import { useLipSync } from "@/hooks/canvas/use-lip-sync";
+import { useCursorGaze } from "@/hooks/canvas/use-cursor-gaze";
+import { usePixelHitTest } from "@/hooks/canvas/use-pixel-hit-test";
+import { useLocalAssets } from "@/context/local-asset-context";
+import { useBgUrl } from "@/context/bgurl-context";
+import { useI18n } from "@/context/i18n-context";
+import { toaster } from "@/components/ui/toaster";
 
 interface Live2DProps {
   isPet: boolean;
@@ -12,10 +20,15 @@ interface Live2DProps {
 
 export const Live2D = memo(({ isPet }: Live2DProps): JSX.Element => {
   const { modelInfo, isLoading } = useLive2DConfig();
+  const { isAvailable: canOpenLocalFiles, addDroppedFile } = useLocalAssets();
+  const { setBackgroundUrl } = useBgUrl();
+  const { t } = useI18n();
 
   // Register IPC handlers here as Live2D is a persistent component in the pet mode
   useIpcHandlers({ isPet });
 
+  useGlobalShortcuts();
+
   const { canvasRef, appRef, modelRef, containerRef } = useLive2DModel({
     isPet,
     modelInfo,
@@ -23,13 +36,45 @@ export const Live2D = memo(({ isPet }: Live2DProps): JSX.Element => {
 
   useLive2DResize(containerRef, appRef, modelRef, modelInfo, isPet);
 
+  usePixelHitTest(appRef, isPet);
+
+  useLipSync();
+
+  useCursorGaze(isPet);
+
   // Export these hooks for global use
   useInterrupt();
   useAudioTask();
 
+  // Model files, model folders and images dropped from the file manager
+  const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+    if (canOpenLocalFiles && e.dataTransfer.types.includes("Files")) {
+      e.preventDefault();
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    if (!canOpenLocalFiles) return;
+    e.preventDefault();
+    Array.from(e.dataTransfer.files).forEach(async (file) => {
+      const asset = await addDroppedFile(file);
+      if (!asset) {
+        toaster.create({
+          title: t("live2d.unsupportedDrop", { name: file.name }),
+          type: "warning",
+          duration: 2000,
+        });
+      } else if (asset.kind === "background") {
+        setBackgroundUrl(asset.url);
+      }
+    });
+  };
+
   return (
     <div
       ref={containerRef}
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
       style={{
         width: isPet ? "100vw" : "100%",
         height: isPet ? "100vh" : "100%",
@@ -14,6 +14,7 @@ import {
 import { useState, useEffect, useCallback } from 'react';
 import { useInputSubtitle } from '@/hooks/electron/use-input-subtitle';
 import { useDraggable } from '@/hooks/electron/use-draggable';
+import { useI18n } from '@/context/i18n-context';
 import { inputSubtitleStyles } from './electron-style';
 
 interface InputSubtitleProps {
@@ -35,6 +36,7 @@ export function InputSubtitle({ isPet = false }: InputSubtitleProps) {
     aiState,
     micOn,
   } = useInputSubtitle();
+  const { t } = useI18n();
 
   const {
     elementRef,
@@ -98,7 +100,7 @@ export function InputSubtitle({ isPet = false }: InputSubtitleProps) {
     >
       <Box {...inputSubtitleStyles.box}>
         <IconButton
-          aria-label="Close subtitle"
+          aria-label={t('input.closeSubtitle')}
           onClick={handleClose}
           {...inputSubtitleStyles.closeButton}
         >
@@ -123,20 +125,20 @@ export function InputSubtitle({ isPet = false }: InputSubtitleProps) {
             <Flex align="center" gap="2">
               <LuBell size={16} />
               <Text {...inputSubtitleStyles.statusText}>
-                {aiState}
+                {t(`aiState.${aiState}`)}
               </Text>
             </Flex>
 
             <Flex gap="2">
               <IconButton
-                aria-label="Toggle microphone"
+                aria-label={t('input.toggleMic')}
                 onClick={handleMicToggle}
                 {...inputSubtitleStyles.iconButton}
               >
                 {micOn ? <LuMic size={16} /> : <LuMicOff size={16} />}
               </IconButton>
               <IconButton
-                aria-label="Interrupt"
+                aria-label={t('input.interrupt')}
                 onClick={handleInterrupt}
                 {...inputSubtitleStyles.iconButton}
               >
@@ -154,7 +156,7 @@ export function InputSubtitle({ isPet = false }: InputSubtitleProps) {
               onKeyDown={handleKeyPress}
               onCompositionStart={handleCompositionStart}
               onCompositionEnd={handleCompositionEnd}
-              placeholder="Type your message..."
+              placeholder={t('input.placeholder')}
               {...inputSubtitleStyles.input}
             />
             <Button
@@ -4,11 +4,13 @@ import {
   FiMinus, FiMaximize2, FiMinimize2, FiX, FiChevronsDown,
 } from 'react-icons/fi';
 import { layoutStyles } from '@/layout';
+import { useI18n } from '@/context/i18n-context';
 
 function TitleBar(): JSX.Element {
   const [isMaximized, setIsMaximized] = useState(false);
   const [isFullScreen, setIsFullScreen] = useState(false);
   const isMac = window.electron?.process.platform === 'darwin';
+  const { t } = useI18n();
 
   useEffect(() => {
     const handleMaximizeChange = (_event: any, maximized: boolean) => {
@@ -37,9 +39,9 @@ function TitleBar(): JSX.Element {
   };
 
   const getButtonLabel = () => {
-    if (isFullScreen) return 'Exit Full Screen';
-    if (isMaximized) return 'Restore';
-    return 'Maximize';
+    if (isFullScreen) return t('titleBar.exitFullScreen');
+    if (isMaximized) return t('titleBar.restore');
+    return t('titleBar.maximize');
   };
 
   const getButtonIcon = () => {
@@ -67,7 +69,7 @@ function TitleBar(): JSX.Element {
         <IconButton
           {...layoutStyles.titleBarButton}
           onClick={() => window.electron?.ipcRenderer.send('window-minimize')}
-          aria-label="Minimize"
+          aria-label={t('titleBar.minimize')}
         >
           <FiMinus />
         </IconButton>
@@ -81,7 +83,7 @@ function TitleBar(): JSX.Element {
         <IconButton
           {...layoutStyles.closeButton}
           onClick={() => window.electron?.ipcRenderer.send('window-close')}
-          aria-label="Close"
+          aria-label={t('titleBar.close')}
         >
           <FiX />
         </IconButton>
@@ -1,14 +1,16 @@
 import { Box, Text } from '@chakra-ui/react';
 import { useAiState } from '@/context/ai-state-context';
+import { useI18n } from '@/context/i18n-context';
 import { footerStyles } from './footer-styles';
 
 function AIStateIndicator(): JSX.Element {
   const { aiState } = useAiState();
+  const { t } = useI18n();
   const styles = footerStyles.aiIndicator;
 
   return (
     <Box {...styles.container}>
-      <Text {...styles.text}>{aiState}</Text>
+      <Text {...styles.text}>{t(`aiState.${aiState}`)}</Text>
     </Box>
   );
 }
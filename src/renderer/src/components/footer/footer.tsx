@@ -10,6 +10,7 @@ import { InputGroup } from '@/components/ui/input-group';
 import { footerStyles } from './footer-styles';
 import AIStateIndicator from './ai-state-indicator';
 import { useFooter } from '@/hooks/footer/use-footer';
+import { useI18n } from '@/context/i18n-context';
 
 // Type definitions
 interface FooterProps {
@@ -52,25 +53,28 @@ const ToggleButton = memo(({ isCollapsed, onToggle }: ToggleButtonProps) => (
 
 ToggleButton.displayName = 'ToggleButton';
 
-const ActionButtons = memo(({ micOn, onMicToggle, onInterrupt }: ActionButtonsProps) => (
-  <HStack gap={2}>
-    <IconButton
-      bg={micOn ? 'green.500' : 'red.500'}
-      {...footerStyles.footer.actionButton}
-      onClick={onMicToggle}
-    >
-      {micOn ? <BsMicFill /> : <BsMicMuteFill />}
-    </IconButton>
-    <IconButton
-      aria-label="Raise hand"
-      bg="yellow.500"
-      {...footerStyles.footer.actionButton}
-      onClick={onInterrupt}
-    >
-      <IoHandRightSharp size="24" />
-    </IconButton>
-  </HStack>
-));
+const ActionButtons = memo(({ micOn, onMicToggle, onInterrupt }: ActionButtonsProps) => {
+  const { t } = useI18n();
+  return (
+    <HStack gap={2}>
+      <IconButton
+        bg={micOn ? 'green.500' : 'red.500'}
+        {...footerStyles.footer.actionButton}
+        onClick={onMicToggle}
+      >
+        {micOn ? <BsMicFill /> : <BsMicMuteFill />}
+      </IconButton>
+      <IconButton
+        aria-label={t('input.raiseHand')}
+        bg="yellow.500"
+        {...footerStyles.footer.actionButton}
+        onClick={onInterrupt}
+      >
+        <IoHandRightSharp size="24" />
+      </IconButton>
+    </HStack>
+  );
+});
 
 ActionButtons.displayName = 'ActionButtons';
 
@@ -80,28 +84,31 @@ const MessageInput = memo(({
   onKeyDown,
   onCompositionStart,
   onCompositionEnd,
-}: MessageInputProps) => (
-  <InputGroup flex={1}>
-    <Box position="relative" width="100%">
-      <IconButton
-        aria-label="Attach file"
-        variant="ghost"
-        {...footerStyles.footer.attachButton}
-      >
-        <BsPaperclip size="24" />
-      </IconButton>
-      <Textarea
-        value={value}
-        onChange={onChange}
-        onKeyDown={onKeyDown}
-        onCompositionStart={onCompositionStart}
-        onCompositionEnd={onCompositionEnd}
-        placeholder="Type your message..."
-        {...footerStyles.footer.input}
-      />
-    </Box>
-  </InputGroup>
-));
+}: MessageInputProps) => {
+  const { t } = useI18n();
+  return (
+    <InputGroup flex={1}>
+      <Box position="relative" width="100%">
+        <IconButton
+          aria-label={t('input.attachFile')}
+          variant="ghost"
+          {...footerStyles.footer.attachButton}
+        >
+          <BsPaperclip size="24" />
+        </IconButton>
+        <Textarea
+          value={value}
+          onChange={onChange}
+          onKeyDown={onKeyDown}
+          onCompositionStart={onCompositionStart}
+          onCompositionEnd={onCompositionEnd}
+          placeholder={t('input.placeholder')}
+          {...footerStyles.footer.input}
+        />
+      </Box>
+    </InputGroup>
+  );
+});
 
 MessageInput.displayName = 'MessageInput';
 
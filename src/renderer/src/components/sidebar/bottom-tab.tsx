@@ -4,8 +4,11 @@ import { FiCamera, FiMonitor } from 'react-icons/fi'
 import { sidebarStyles } from './sidebar-styles'
 import CameraPanel from './camera-panel'
 import ScreenPanel from './screen-panel'
+import { useI18n } from '@/context/i18n-context'
 
 function BottomTab(): JSX.Element {
+  const { t } = useI18n()
+
   return (
     <Tabs.Root 
       defaultValue="camera" 
@@ -15,11 +18,11 @@ function BottomTab(): JSX.Element {
       <Tabs.List {...sidebarStyles.bottomTab.list}>
         <Tabs.Trigger value="camera" {...sidebarStyles.bottomTab.trigger}>
           <FiCamera />
-          Camera
+          {t('common.camera')}
         </Tabs.Trigger>
         <Tabs.Trigger value="screen" {...sidebarStyles.bottomTab.trigger}>
           <FiMonitor />
-          Screen
+          {t('common.screen')}
         </Tabs.Trigger>
       </Tabs.List>
 
@@ -4,18 +4,21 @@ import { FiCamera } from 'react-icons/fi';
 import { Tooltip } from '@/components/ui/tooltip';
 import { sidebarStyles } from './sidebar-styles';
 import { useCameraPanel } from '@/hooks/sidebar/use-camera-panel';
+import { useI18n } from '@/context/i18n-context';
 
 // Reusable components
 function LiveIndicator() {
+  const { t } = useI18n();
   return (
     <Box color="red.500" display="flex" alignItems="center" gap={2}>
       <Box w="8px" h="8px" borderRadius="full" bg="red.500" animation="pulse 2s infinite" />
-      <Text fontSize="sm">Live</Text>
+      <Text fontSize="sm">{t('common.live')}</Text>
     </Box>
   );
 }
 
 function CameraPlaceholder() {
+  const { t } = useI18n();
   return (
     <Box
       position="absolute"
@@ -26,7 +29,7 @@ function CameraPlaceholder() {
     >
       <FiCamera size={24} />
       <Text color="whiteAlpha.600" fontSize="sm" textAlign="center">
-        Click to start camera
+        {t('camera.start')}
       </Text>
     </Box>
   );
@@ -63,6 +66,7 @@ function CameraPanel(): JSX.Element {
     handleMouseEnter,
     handleMouseLeave,
   } = useCameraPanel();
+  const { t } = useI18n();
 
   useEffect(() => {
     if (videoRef.current) {
@@ -78,7 +82,7 @@ function CameraPanel(): JSX.Element {
 
       <Tooltip
         showArrow
-        content={isStreaming ? 'Click to stop camera' : 'Click to start camera'}
+        content={isStreaming ? t('camera.stop') : t('camera.start')}
         open={isHovering && !error}
       >
         <Box
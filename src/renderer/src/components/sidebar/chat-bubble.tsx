@@ -1,6 +1,7 @@
 import { Box, Text } from '@chakra-ui/react';
 import { useEffect, useRef } from 'react';
 import { Message } from '@/services/websocket-service';
+import { useI18n } from '@/context/i18n-context';
 import { sidebarStyles } from './sidebar-styles';
 
 // Type definitions
@@ -11,6 +12,7 @@ interface ChatBubbleProps {
 
 interface BubbleContentProps {
   content: string
+  status?: Message['status']
   onContentChange?: () => void
 }
 
@@ -19,8 +21,9 @@ interface BubbleIndicatorProps {
 }
 
 // Reusable components
-function BubbleContent({ content, onContentChange }: BubbleContentProps): JSX.Element {
+function BubbleContent({ content, status, onContentChange }: BubbleContentProps): JSX.Element {
   const prevContentRef = useRef(content);
+  const { t } = useI18n();
 
   useEffect(() => {
     if (content !== prevContentRef.current) {
@@ -30,8 +33,16 @@ function BubbleContent({ content, onContentChange }: BubbleContentProps): JSX.El
   }, [content, onContentChange]);
 
   return (
-    <Box {...sidebarStyles.chatBubble.message}>
+    <Box {...sidebarStyles.chatBubble.message} opacity={status === 'pending' ? 0.6 : 1}>
       <Text {...sidebarStyles.chatBubble.text}>{content}</Text>
+      {status && (
+        <Text
+          {...sidebarStyles.chatBubble.status}
+          color={status === 'failed' ? 'red.300' : 'whiteAlpha.600'}
+        >
+          {status === 'failed' ? t('chat.sendFailed') : t('chat.waitingForConnection')}
+        </Text>
+      )}
     </Box>
   );
 }
@@ -57,6 +68,7 @@ function ChatBubble({ message, onUpdate }: ChatBubbleProps): JSX.Element {
     >
       <BubbleContent
         content={message.content}
+        status={message.status}
         onContentChange={onUpdate}
       />
       <BubbleIndicator isAI={isAI} />
@@ -69,6 +81,7 @@ ChatBubble.defaultProps = {
 };
 
 BubbleContent.defaultProps = {
+  status: undefined,
   onContentChange: undefined,
 };
 
@@ -6,6 +6,7 @@ import ChatBubble from './chat-bubble';
 import { sidebarStyles } from './sidebar-styles';
 import { useChatHistoryPanel } from '@/hooks/sidebar/use-chat-history-panel';
 import { Message } from '@/types/message';
+import { useI18n } from '@/context/i18n-context';
 
 // Type definitions
 interface MessageListProps {
@@ -83,12 +84,13 @@ MessageList.displayName = 'MessageList';
 // Main component
 function ChatHistoryPanel(): JSX.Element {
   const { messages, messageListRef, handleMessageUpdate } = useChatHistoryPanel();
+  const { t } = useI18n();
 
   return (
     <Box {...sidebarStyles.chatHistoryPanel.container}>
-      <Text {...sidebarStyles.chatHistoryPanel.title}>Chat History</Text>
+      <Text {...sidebarStyles.chatHistoryPanel.title}>{t('chat.title')}</Text>
       {messages.length === 0 ? (
-        <EmptyState message="No messages yet. Start a conversation!" />
+        <EmptyState message={t('chat.empty')} />
       ) : (
         <MessageList
           messages={messages}
@@ -1,6 +1,7 @@
 import { Box, Button } from '@chakra-ui/react';
 import { FiTrash2 } from 'react-icons/fi';
-import { formatDistanceToNow } from 'date-fns';
+import { formatDistanceToNow, Locale } from 'date-fns';
+import { zhCN } from 'date-fns/locale';
 import { memo } from 'react';
 import {
   DrawerRoot,
@@ -17,6 +18,13 @@ import {
 import { sidebarStyles } from './sidebar-styles';
 import { useHistoryDrawer } from '@/hooks/sidebar/use-history-drawer';
 import { HistoryInfo } from '@/context/websocket-context';
+import { useI18n } from '@/context/i18n-context';
+import { Language } from '@/i18n';
+
+// English is the date-fns default
+const DATE_LOCALES: Partial<Record<Language, Locale>> = {
+  zh: zhCN,
+};
 
 // Type definitions
 interface HistoryDrawerProps {
@@ -36,32 +44,36 @@ const HistoryItem = memo(({
   latestMessage,
   onSelect,
   onDelete,
-}: HistoryItemProps): JSX.Element => (
-  <Box
-    {...sidebarStyles.historyDrawer.historyItem}
-    {...(isSelected ? sidebarStyles.historyDrawer.historyItemSelected : {})}
-    onClick={onSelect}
-  >
-    <Box {...sidebarStyles.historyDrawer.historyHeader}>
-      <Box {...sidebarStyles.historyDrawer.timestamp}>
-        {latestMessage.timestamp
-          ? formatDistanceToNow(new Date(latestMessage.timestamp), { addSuffix: true })
-          : 'No messages'}
+}: HistoryItemProps): JSX.Element => {
+  const { t, language } = useI18n();
+  const locale = DATE_LOCALES[language];
+  return (
+    <Box
+      {...sidebarStyles.historyDrawer.historyItem}
+      {...(isSelected ? sidebarStyles.historyDrawer.historyItemSelected : {})}
+      onClick={onSelect}
+    >
+      <Box {...sidebarStyles.historyDrawer.historyHeader}>
+        <Box {...sidebarStyles.historyDrawer.timestamp}>
+          {latestMessage.timestamp
+            ? formatDistanceToNow(new Date(latestMessage.timestamp), { addSuffix: true, locale })
+            : t('history.noMessages')}
+        </Box>
+        <Button
+          onClick={onDelete}
+          {...sidebarStyles.historyDrawer.deleteButton}
+        >
+          <FiTrash2 />
+        </Button>
       </Box>
-      <Button
-        onClick={onDelete}
-        {...sidebarStyles.historyDrawer.deleteButton}
-      >
-        <FiTrash2 />
-      </Button>
+      {latestMessage.content && (
+        <Box {...sidebarStyles.historyDrawer.messagePreview}>
+          {latestMessage.content}
+        </Box>
+      )}
     </Box>
-    {latestMessage.content && (
-      <Box {...sidebarStyles.historyDrawer.messagePreview}>
-        {latestMessage.content}
-      </Box>
-    )}
-  </Box>
-));
+  );
+});
 
 HistoryItem.displayName = 'HistoryItem';
 
@@ -76,6 +88,7 @@ function HistoryDrawer({ children }: HistoryDrawerProps): JSX.Element {
     deleteHistory,
     getLatestMessageContent,
   } = useHistoryDrawer();
+  const { t } = useI18n();
 
   return (
     <DrawerRoot
@@ -88,7 +101,7 @@ function HistoryDrawer({ children }: HistoryDrawerProps): JSX.Element {
       <DrawerContent style={sidebarStyles.historyDrawer.drawer.content}>
         <DrawerHeader>
           <DrawerTitle style={sidebarStyles.historyDrawer.drawer.title}>
-            Chat History List
+            {t('history.title')}
           </DrawerTitle>
           <DrawerCloseTrigger style={sidebarStyles.historyDrawer.drawer.closeButton} />
         </DrawerHeader>
@@ -113,7 +126,7 @@ function HistoryDrawer({ children }: HistoryDrawerProps): JSX.Element {
         <DrawerFooter>
           <DrawerActionTrigger asChild>
             <Button {...sidebarStyles.historyDrawer.drawer.actionButton}>
-              Close
+              {t('common.close')}
             </Button>
           </DrawerActionTrigger>
         </DrawerFooter>
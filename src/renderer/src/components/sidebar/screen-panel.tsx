@@ -4,9 +4,11 @@ import { FiMonitor } from "react-icons/fi";
 import { Tooltip } from "@/components/ui/tooltip";
 import { sidebarStyles } from "./sidebar-styles";
 import { useCaptureScreen } from "@/hooks/sidebar/use-capture-screen";
+import { useI18n } from "@/context/i18n-context";
 
 // Reusable components
 function ScreenIndicator() {
+  const { t } = useI18n();
   return (
     <Box color="red.500" display="flex" alignItems="center" gap={2}>
       <Box
@@ -16,12 +18,13 @@ function ScreenIndicator() {
         bg="red.500"
         animation="pulse 2s infinite"
       />
-      <Text fontSize="sm">Screen</Text>
+      <Text fontSize="sm">{t("common.screen")}</Text>
     </Box>
   );
 }
 
 function ScreenPlaceholder() {
+  const { t } = useI18n();
   return (
     <Box
       position="absolute"
@@ -32,7 +35,7 @@ function ScreenPlaceholder() {
     >
       <FiMonitor size={24} />
       <Text color="whiteAlpha.600" fontSize="sm" textAlign="center">
-        Click to start screen capture
+        {t("screen.start")}
       </Text>
     </Box>
   );
@@ -67,6 +70,7 @@ function ScreenPanel(): JSX.Element {
     handleMouseEnter,
     handleMouseLeave,
   } = useCaptureScreen();
+  const { t } = useI18n();
 
   return (
     <Box {...sidebarStyles.screenPanel.container}>
@@ -78,8 +82,8 @@ function ScreenPanel(): JSX.Element {
         showArrow
         content={
           isStreaming
-            ? "Click to stop screen capture"
-            : "Click to start screen capture"
+            ? t("screen.stop")
+            : t("screen.start")
         }
         open={isHovering && !error}
       >
@@ -1,7 +1,9 @@
 import { Box } from '@chakra-ui/react';
+import { useI18n } from '@/context/i18n-context';
 
 function About(): JSX.Element {
-  return <Box>About Settings Content</Box>;
+  const { t } = useI18n();
+  return <Box>{t('settings.about.content')}</Box>;
 }
 
 export default About;
@@ -1,6 +1,7 @@
 import { Stack } from '@chakra-ui/react';
 import { settingStyles } from './setting-styles';
 import { useAgentSettings } from '@/hooks/sidebar/setting/use-agent-settings';
+import { useI18n } from '@/context/i18n-context';
 import { SwitchField, NumberField } from './common';
 
 interface AgentProps {
@@ -9,37 +10,125 @@ interface AgentProps {
 }
 
 function Agent({ onSave, onCancel }: AgentProps): JSX.Element {
+  const { t } = useI18n();
   const {
     settings,
     handleAllowProactiveSpeakChange,
     handleIdleSecondsChange,
     handleAllowButtonTriggerChange,
+    handleAllowTouchEventsChange,
+    handleSettingChange,
   } = useAgentSettings({ onSave, onCancel });
 
   return (
     <Stack {...settingStyles.common.container}>
       <SwitchField
-        label="Allow AI to Speak Proactively"
+        label={t('settings.agent.proactiveSpeak')}
         checked={settings.allowProactiveSpeak}
         onChange={handleAllowProactiveSpeakChange}
       />
 
       {settings.allowProactiveSpeak && (
-        <NumberField
-          label="Idle seconds allow AI to speak"
-          value={settings.idleSecondsToSpeak}
-          onChange={(value) => handleIdleSecondsChange(Number(value))}
-          min={0}
-          step={0.1}
-          allowMouseWheel
-        />
+        <>
+          <NumberField
+            label={t('settings.agent.idleSeconds')}
+            value={settings.idleSecondsToSpeak}
+            onChange={(value) => handleIdleSecondsChange(Number(value))}
+            min={0}
+            step={0.1}
+            allowMouseWheel
+          />
+
+          <NumberField
+            label={t('settings.agent.idleRandomSeconds')}
+            value={settings.idleRandomSeconds}
+            onChange={(value) => handleSettingChange('idleRandomSeconds', Number(value))}
+            min={0}
+            step={1}
+            allowMouseWheel
+          />
+
+          <NumberField
+            label={t('settings.agent.maxPromptsPerHour')}
+            value={settings.maxPromptsPerHour}
+            onChange={(value) => handleSettingChange('maxPromptsPerHour', Number(value))}
+            min={0}
+            step={1}
+            allowMouseWheel
+          />
+
+          <SwitchField
+            label={t('settings.agent.quietHours')}
+            checked={settings.quietHoursEnabled}
+            onChange={(value) => handleSettingChange('quietHoursEnabled', value)}
+          />
+
+          {settings.quietHoursEnabled && (
+            <>
+              <NumberField
+                label={t('settings.agent.quietHoursStart')}
+                value={settings.quietHoursStart}
+                onChange={(value) => handleSettingChange('quietHoursStart', Number(value))}
+                min={0}
+                max={23}
+              />
+              <NumberField
+                label={t('settings.agent.quietHoursEnd')}
+                value={settings.quietHoursEnd}
+                onChange={(value) => handleSettingChange('quietHoursEnd', Number(value))}
+                min={0}
+                max={23}
+              />
+            </>
+          )}
+
+          <SwitchField
+            label={t('settings.agent.speakOnSystemIdle')}
+            checked={settings.speakOnSystemIdle}
+            onChange={(value) => handleSettingChange('speakOnSystemIdle', value)}
+          />
+
+          <SwitchField
+            label={t('settings.agent.speakOnSystemReturn')}
+            checked={settings.speakOnSystemReturn}
+            onChange={(value) => handleSettingChange('speakOnSystemReturn', value)}
+          />
+
+          {(settings.speakOnSystemIdle || settings.speakOnSystemReturn) && (
+            <NumberField
+              label={t('settings.agent.systemIdleMinutes')}
+              value={settings.systemIdleMinutes}
+              onChange={(value) => handleSettingChange('systemIdleMinutes', Number(value))}
+              min={1}
+              max={240}
+            />
+          )}
+
+          <SwitchField
+            label={t('settings.agent.speakOnTimeOfDay')}
+            checked={settings.speakOnTimeOfDay}
+            onChange={(value) => handleSettingChange('speakOnTimeOfDay', value)}
+          />
+
+          <SwitchField
+            label={t('settings.agent.speakOnAppFocus')}
+            checked={settings.speakOnAppFocus}
+            onChange={(value) => handleSettingChange('speakOnAppFocus', value)}
+          />
+        </>
       )}
 
       <SwitchField
-        label="Prompt AI to Speak via Raise Hand Button"
+        label={t('settings.agent.raiseHand')}
         checked={settings.allowButtonTrigger}
         onChange={handleAllowButtonTriggerChange}
       />
+
+      <SwitchField
+        label={t('settings.agent.touchEvents')}
+        checked={settings.allowTouchEvents}
+        onChange={handleAllowTouchEventsChange}
+      />
     </Stack>
   );
 }
@@ -1,26 +1,87 @@
-import { Stack } from '@chakra-ui/react';
-import { useEffect } from 'react';
+import {
+  Box, Button, HStack, Stack, Text, createListCollection,
+} from '@chakra-ui/react';
+import { useEffect, useMemo, useState } from 'react';
 import { settingStyles } from './setting-styles';
 import { useASRSettings } from '@/hooks/sidebar/setting/use-asr-settings';
-import { SwitchField, NumberField } from './common';
+import { useMicLevel } from '@/hooks/sidebar/setting/use-mic-level';
+import { useI18n } from '@/context/i18n-context';
+import { InputMode, MicSettings } from '@/context/vad-context';
+import { Field } from '@/components/ui/field';
+import { SwitchField, NumberField, SelectField } from './common';
+import { VADCalibration } from './vad-calibration';
+import { WakeWord } from './wake-word';
 
 interface ASRProps {
   onSave?: (callback: () => void) => () => void
   onCancel?: (callback: () => void) => () => void
 }
 
+function MicLevelMeter({ settings }: { settings: MicSettings }): JSX.Element {
+  const { t } = useI18n();
+  const [testing, setTesting] = useState(false);
+  const { level, error } = useMicLevel(settings, testing);
+  const styles = settingStyles.asr.levelMeter;
+
+  return (
+    <Field
+      {...settingStyles.common.field}
+      label={<Text {...settingStyles.common.fieldLabel}>{t('settings.asr.inputLevel')}</Text>}
+    >
+      <HStack {...styles.container}>
+        {error ? (
+          <Text {...styles.error}>{error}</Text>
+        ) : (
+          <Box {...styles.track}>
+            <Box {...styles.fill} width={`${level * 100}%`} />
+          </Box>
+        )}
+        <Button {...styles.button} onClick={() => setTesting(!testing)}>
+          {testing ? t('settings.asr.stopTest') : t('settings.asr.testMic')}
+        </Button>
+      </HStack>
+    </Field>
+  );
+}
+
 function ASR({ onSave, onCancel }: ASRProps): JSX.Element {
+  const { t } = useI18n();
   const {
     localSettings,
     voiceInterruptionOn,
     autoStartMicOn,
     setVoiceInterruptionOn,
     setAutoStartMicOn,
+    echoGuardOn,
+    setEchoGuardOn,
+    micSettings,
+    inputMode,
+    setInputMode,
+    wakeWordSettings,
+    handleWakeWordChange,
+    inputDevices,
     handleInputChange,
+    handleApplyCalibration,
+    handleMicSettingChange,
     handleSave,
     handleCancel,
   } = useASRSettings();
 
+  const inputDeviceCollection = useMemo(() => createListCollection({
+    items: [
+      { label: t('common.systemDefault'), value: '' },
+      ...inputDevices.map((device) => ({ label: device.label, value: device.deviceId })),
+    ],
+  }), [inputDevices, t]);
+
+  const inputModeCollection = useMemo(() => createListCollection({
+    items: [
+      { label: t('settings.asr.inputModeVad'), value: 'vad' },
+      { label: t('settings.asr.inputModePushToTalk'), value: 'push-to-talk' },
+      { label: t('settings.asr.inputModeWakeWord'), value: 'wake-word' },
+    ],
+  }), [t]);
+
   useEffect(() => {
     if (!onSave || !onCancel) return;
 
@@ -35,20 +96,88 @@ function ASR({ onSave, onCancel }: ASRProps): JSX.Element {
 
   return (
     <Stack {...settingStyles.common.container}>
+      <SelectField
+        label={t('settings.asr.inputDevice')}
+        value={[micSettings.deviceId]}
+        onChange={(value) => handleMicSettingChange('deviceId', value[0] ?? '')}
+        collection={inputDeviceCollection}
+        placeholder={t('common.systemDefault')}
+      />
+
+      <MicLevelMeter settings={micSettings} />
+
+      <SelectField
+        label={t('settings.asr.inputMode')}
+        value={[inputMode]}
+        onChange={(value) => value[0] && setInputMode(value[0] as InputMode)}
+        collection={inputModeCollection}
+        placeholder={t('settings.asr.inputModeVad')}
+      />
+
+      {inputMode === 'push-to-talk' && (
+        <Text {...settingStyles.shortcuts.hint} mt={-6}>
+          {t('settings.asr.pushToTalkHint')}
+        </Text>
+      )}
+
+      {inputMode === 'wake-word' && (
+        <WakeWord
+          micSettings={micSettings}
+          settings={wakeWordSettings}
+          onChange={handleWakeWordChange}
+        />
+      )}
+
       <SwitchField
-        label="Auto Stop Mic When AI Start Speaking"
+        label={t('settings.asr.echoCancellation')}
+        checked={micSettings.echoCancellation}
+        onChange={(value) => handleMicSettingChange('echoCancellation', value)}
+      />
+
+      <SwitchField
+        label={t('settings.asr.noiseSuppression')}
+        checked={micSettings.noiseSuppression}
+        onChange={(value) => handleMicSettingChange('noiseSuppression', value)}
+      />
+
+      <SwitchField
+        label={t('settings.asr.autoGainControl')}
+        checked={micSettings.autoGainControl}
+        onChange={(value) => handleMicSettingChange('autoGainControl', value)}
+      />
+
+      <SwitchField
+        label={t('settings.asr.autoStopMic')}
         checked={voiceInterruptionOn}
         onChange={setVoiceInterruptionOn}
       />
 
+      {voiceInterruptionOn && (
+        <SwitchField
+          label={t('settings.asr.echoGuard')}
+          checked={echoGuardOn}
+          onChange={setEchoGuardOn}
+        />
+      )}
+
+      {voiceInterruptionOn && echoGuardOn && (
+        <NumberField
+          label={t('settings.asr.bargeInThreshold')}
+          value={localSettings.bargeInThreshold}
+          onChange={(value) => handleInputChange('bargeInThreshold', value)}
+          min={1}
+          max={100}
+        />
+      )}
+
       <SwitchField
-        label="Auto Start Mic When AI Interrupted"
+        label={t('settings.asr.autoStartMic')}
         checked={autoStartMicOn}
         onChange={setAutoStartMicOn}
       />
 
       <NumberField
-        label="Speech Prob Threshold"
+        label={t('settings.asr.positiveSpeechThreshold')}
         value={localSettings.positiveSpeechThreshold}
         onChange={(value) => handleInputChange('positiveSpeechThreshold', value)}
         min={1}
@@ -56,7 +185,7 @@ function ASR({ onSave, onCancel }: ASRProps): JSX.Element {
       />
 
       <NumberField
-        label="Negative Speech Threshold"
+        label={t('settings.asr.negativeSpeechThreshold')}
         value={localSettings.negativeSpeechThreshold}
         onChange={(value) => handleInputChange('negativeSpeechThreshold', value)}
         min={0}
@@ -64,12 +193,18 @@ function ASR({ onSave, onCancel }: ASRProps): JSX.Element {
       />
 
       <NumberField
-        label="Redemption Frames"
+        label={t('settings.asr.redemptionFrames')}
         value={localSettings.redemptionFrames}
         onChange={(value) => handleInputChange('redemptionFrames', value)}
         min={1}
         max={100}
       />
+
+      <VADCalibration
+        micSettings={micSettings}
+        settings={localSettings}
+        onApply={handleApplyCalibration}
+      />
     </Stack>
   );
 }
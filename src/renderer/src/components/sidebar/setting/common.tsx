@@ -19,6 +19,7 @@ interface SelectFieldProps {
   onChange: (value: string[]) => void
   collection: ReturnType<typeof createListCollection<{ label: string; value: string }>>
   placeholder: string
+  multiple?: boolean
 }
 
 interface NumberFieldProps {
@@ -51,6 +52,7 @@ export function SelectField({
   onChange,
   collection,
   placeholder,
+  multiple,
 }: SelectFieldProps): JSX.Element {
   return (
     <Field
@@ -61,6 +63,7 @@ export function SelectField({
         {...settingStyles.general.select.root}
         collection={collection}
         value={value}
+        multiple={multiple}
         onValueChange={(e) => onChange(e.value)}
       >
         <SelectTrigger {...settingStyles.general.select.trigger}>
@@ -78,6 +81,10 @@ export function SelectField({
   );
 }
 
+SelectField.defaultProps = {
+  multiple: false,
+};
+
 export function NumberField({
   label,
   value,
@@ -1,10 +1,16 @@
-import { Stack, createListCollection } from '@chakra-ui/react';
+import { Button, Stack, createListCollection } from '@chakra-ui/react';
 import { useBgUrl } from '@/context/bgurl-context';
 import { settingStyles } from './setting-styles';
 import { useConfig } from '@/context/character-config-context';
 import { useGeneralSettings } from '@/hooks/sidebar/setting/use-general-settings';
 import { useWebSocket } from '@/context/websocket-context';
-import { SelectField, SwitchField, InputField } from './common';
+import { useVisionSettings } from '@/hooks/sidebar/setting/use-vision-settings';
+import { useI18n } from '@/context/i18n-context';
+import { LANGUAGES } from '@/i18n';
+import { useLocalAssets } from '@/context/local-asset-context';
+import {
+  SelectField, SwitchField, InputField, NumberField,
+} from './common';
 
 interface GeneralProps {
   onSave?: (callback: () => void) => () => void
@@ -15,19 +21,24 @@ interface GeneralProps {
 const useCollections = () => {
   const { backgroundFiles } = useBgUrl() || {};
   const { configFiles } = useConfig();
+  const { localBackgrounds } = useLocalAssets();
+  const { t } = useI18n();
 
   const languages = createListCollection({
-    items: [
-      { label: 'English', value: 'en' },
-      { label: '中文', value: 'zh' },
-    ],
+    items: LANGUAGES,
   });
 
   const backgrounds = createListCollection({
-    items: backgroundFiles?.map((filename) => ({
-      label: String(filename),
-      value: `/bg/${filename}`,
-    })) || [],
+    items: [
+      ...(backgroundFiles?.map((file) => ({
+        label: file.name,
+        value: file.url,
+      })) || []),
+      ...localBackgrounds.map((background) => ({
+        label: background.name,
+        value: background.url,
+      })),
+    ],
   });
 
   const characterPresets = createListCollection({
@@ -37,10 +48,28 @@ const useCollections = () => {
     })),
   });
 
+  const visionSources = createListCollection({
+    items: [
+      { label: t('common.camera'), value: 'camera' },
+      { label: t('common.screen'), value: 'screen' },
+    ],
+  });
+
+  const visionSizes = createListCollection({
+    items: [
+      { label: '320 px', value: '320' },
+      { label: '640 px', value: '640' },
+      { label: '1024 px', value: '1024' },
+      { label: '1280 px', value: '1280' },
+    ],
+  });
+
   return {
     languages,
     backgrounds,
     characterPresets,
+    visionSources,
+    visionSizes,
   };
 };
 
@@ -51,6 +80,8 @@ function General({ onSave, onCancel }: GeneralProps): JSX.Element {
     wsUrl, setWsUrl, baseUrl, setBaseUrl,
   } = useWebSocket();
   const collections = useCollections();
+  const { t } = useI18n();
+  const { isAvailable: canOpenLocalFiles, openLocalBackground } = useLocalAssets();
 
   const {
     settings,
@@ -71,24 +102,32 @@ function General({ onSave, onCancel }: GeneralProps): JSX.Element {
     onCancel,
   });
 
+  const {
+    settings: visionSettings,
+    handleEnabledChange: handleVisionEnabledChange,
+    handleSourcesChange: handleVisionSourcesChange,
+    handleMaxSizeChange: handleVisionMaxSizeChange,
+    handleQualityChange: handleVisionQualityChange,
+  } = useVisionSettings({ onSave, onCancel });
+
   return (
     <Stack {...settingStyles.common.container}>
       <SelectField
-        label="Language"
+        label={t('settings.general.language')}
         value={settings.language}
         onChange={(value) => handleSettingChange('language', value)}
         collection={collections.languages}
-        placeholder="Select language"
+        placeholder={t('settings.general.selectLanguage')}
       />
 
       <SwitchField
-        label="Use Camera Background"
+        label={t('settings.general.useCameraBackground')}
         checked={settings.useCameraBackground}
         onChange={handleCameraToggle}
       />
 
       <SwitchField
-        label="Show Subtitle"
+        label={t('settings.general.showSubtitle')}
         checked={showSubtitle}
         onChange={setShowSubtitle}
       />
@@ -96,43 +135,92 @@ function General({ onSave, onCancel }: GeneralProps): JSX.Element {
       {!settings.useCameraBackground && (
         <>
           <SelectField
-            label="Background Image"
+            label={t('settings.general.backgroundImage')}
             value={settings.selectedBgUrl}
             onChange={(value) => handleSettingChange('selectedBgUrl', value)}
             collection={collections.backgrounds}
-            placeholder="Select from available backgrounds"
+            placeholder={t('settings.general.selectBackground')}
           />
 
+          {canOpenLocalFiles && (
+            <Button
+              {...settingStyles.general.localBackgroundButton}
+              onClick={async () => {
+                const background = await openLocalBackground();
+                if (background) handleSettingChange('selectedBgUrl', [background.url]);
+              }}
+            >
+              {t('settings.general.addLocalBackground')}
+            </Button>
+          )}
+
           <InputField
-            label="Or enter a custom background URL"
+            label={t('settings.general.customBackground')}
             value={settings.customBgUrl}
             onChange={(value) => handleSettingChange('customBgUrl', value)}
-            placeholder="Enter image URL"
+            placeholder={t('settings.general.enterImageUrl')}
           />
         </>
       )}
 
       <SelectField
-        label="Character Preset"
+        label={t('settings.general.characterPreset')}
         value={settings.selectedCharacterPreset}
         onChange={handleCharacterPresetChange}
         collection={collections.characterPresets}
-        placeholder={confName || 'Select character preset'}
+        placeholder={confName || t('settings.general.selectCharacterPreset')}
       />
 
       <InputField
-        label="WebSocket URL"
+        label={t('settings.general.wsUrl')}
         value={settings.wsUrl}
         onChange={(value) => handleSettingChange('wsUrl', value)}
-        placeholder="Enter WebSocket URL"
+        placeholder={t('settings.general.enterWsUrl')}
       />
 
       <InputField
-        label="Base URL"
+        label={t('settings.general.baseUrl')}
         value={settings.baseUrl}
         onChange={(value) => handleSettingChange('baseUrl', value)}
-        placeholder="Enter Base URL"
+        placeholder={t('settings.general.enterBaseUrl')}
       />
+
+      <SwitchField
+        label={t('settings.general.visionEnabled')}
+        checked={visionSettings.enabled}
+        onChange={handleVisionEnabledChange}
+      />
+
+      {visionSettings.enabled && (
+        <>
+          <SelectField
+            label={t('settings.general.visionSources')}
+            value={visionSettings.sources}
+            onChange={handleVisionSourcesChange}
+            collection={collections.visionSources}
+            placeholder={t('settings.general.selectSources')}
+            multiple
+          />
+
+          <SelectField
+            label={t('settings.general.visionMaxSize')}
+            value={[String(visionSettings.maxSize)]}
+            onChange={handleVisionMaxSizeChange}
+            collection={collections.visionSizes}
+            placeholder={t('settings.general.selectResolution')}
+          />
+
+          <NumberField
+            label={t('settings.general.visionQuality')}
+            value={visionSettings.quality}
+            onChange={(value) => handleVisionQualityChange(Number(value))}
+            min={0.1}
+            max={1}
+            step={0.05}
+            allowMouseWheel
+          />
+        </>
+      )}
     </Stack>
   );
 }
@@ -0,0 +1,295 @@
+import {
+  Box, Button, HStack, Input, Stack, Text, Textarea, createListCollection,
+} from '@chakra-ui/react';
+import { useMemo, useState } from 'react';
+import { settingStyles } from './setting-styles';
+import { useI18n } from '@/context/i18n-context';
+import { EmotionMap, TapMotionMap } from '@/context/live2d-config-context';
+import { useLive2DInspector } from '@/hooks/sidebar/setting/use-live2d-inspector';
+import { ModelInspection } from '@/utils/model-inspector';
+import { toaster } from '@/components/ui/toaster';
+import { NumberField, SelectField } from './common';
+
+const styles = settingStyles.live2d.inspector;
+
+interface PreviewRowProps {
+  label: string
+  detail?: string
+  onPreview: () => void
+}
+
+function PreviewRow({ label, detail, onPreview }: PreviewRowProps): JSX.Element {
+  const { t } = useI18n();
+  return (
+    <HStack {...styles.row}>
+      <Text {...styles.name} title={label}>{label}</Text>
+      {detail && <Text {...styles.detail}>{detail}</Text>}
+      <Button {...styles.button} onClick={onPreview}>{t('settings.live2d.play')}</Button>
+    </HStack>
+  );
+}
+
+PreviewRow.defaultProps = {
+  detail: undefined,
+};
+
+function Section({ title, children }: { title: string, children: React.ReactNode }): JSX.Element {
+  return (
+    <Stack {...styles.section}>
+      <Text {...settingStyles.live2d.emotionMap.title}>{title}</Text>
+      {children}
+    </Stack>
+  );
+}
+
+interface ModelInspectorProps {
+  inspector: ReturnType<typeof useLive2DInspector>
+  tapMotions?: TapMotionMap
+}
+
+/**
+ * Lists what the loaded model offers, with a preview button for each
+ */
+export function ModelInspector({ inspector, tapMotions }: ModelInspectorProps): JSX.Element {
+  const { t } = useI18n();
+  const {
+    hasModel,
+    inspection,
+    previewMotion,
+    previewExpression,
+    previewParameter,
+    previewHitArea,
+    resetPose,
+  } = inspector;
+
+  if (!hasModel) {
+    return <Text {...styles.empty}>{t('settings.live2d.noModel')}</Text>;
+  }
+
+  return (
+    <Stack {...styles.section}>
+      <HStack justify="space-between">
+        <Text {...settingStyles.live2d.emotionMap.title} mb={0}>{t('settings.live2d.inspector')}</Text>
+        <Button {...styles.button} onClick={resetPose}>{t('settings.live2d.resetPose')}</Button>
+      </HStack>
+
+      <Section title={t('settings.live2d.motionGroups')}>
+        <Box {...styles.list}>
+          {inspection.motionGroups.flatMap(({ name, count }) => Array.from(
+            { length: count },
+            (_, index) => (
+              <PreviewRow
+                key={`${name}-${index}`}
+                label={name || t('settings.live2d.unnamedGroup')}
+                detail={`#${index}`}
+                onPreview={() => previewMotion(name, index)}
+              />
+            ),
+          ))}
+        </Box>
+      </Section>
+
+      <Section title={t('settings.live2d.expressions')}>
+        <Box {...styles.list}>
+          {inspection.expressions.map((name, index) => (
+            <PreviewRow
+              key={name}
+              label={name}
+              detail={`#${index}`}
+              onPreview={() => previewExpression(index)}
+            />
+          ))}
+        </Box>
+      </Section>
+
+      <Section title={t('settings.live2d.hitAreas')}>
+        <Box {...styles.list}>
+          {inspection.hitAreas.map((name) => (
+            <PreviewRow
+              key={name}
+              label={name}
+              onPreview={() => previewHitArea(tapMotions?.[name])}
+            />
+          ))}
+        </Box>
+      </Section>
+
+      <Section title={t('settings.live2d.parameters')}>
+        {!inspection.parameters?.length ? (
+          <Text {...styles.empty}>
+            {t(inspection.parameters ? 'settings.live2d.noParameters' : 'settings.live2d.parametersUnsupported')}
+          </Text>
+        ) : (
+          <Box {...styles.list}>
+            {inspection.parameters.map((parameter) => (
+              <PreviewRow
+                key={parameter.id}
+                label={parameter.id}
+                detail={`${parameter.min}…${parameter.max}`}
+                onPreview={() => previewParameter(parameter)}
+              />
+            ))}
+          </Box>
+        )}
+      </Section>
+    </Stack>
+  );
+}
+
+ModelInspector.defaultProps = {
+  tapMotions: undefined,
+};
+
+interface EmotionMapEditorProps {
+  emotionMap: EmotionMap
+  inspection: ModelInspection
+  onChange: (emotion: string, expression: number | string | null) => void
+}
+
+/**
+ * Maps the emotion tags the server sends to the model's expressions
+ */
+export function EmotionMapEditor({
+  emotionMap, inspection, onChange,
+}: EmotionMapEditorProps): JSX.Element {
+  const { t } = useI18n();
+  const [newEmotion, setNewEmotion] = useState('');
+  const editorStyles = settingStyles.live2d.emotionMap;
+
+  const expressionCollection = useMemo(() => createListCollection({
+    items: inspection.expressions.map((name, index) => ({
+      label: `${index}: ${name}`,
+      value: String(index),
+    })),
+  }), [inspection.expressions]);
+
+  // Entries may name an expression instead of giving its index
+  const toIndex = (expression: number | string): string => {
+    if (typeof expression === 'number') return String(expression);
+    const index = inspection.expressions.indexOf(expression);
+    return index > -1 ? String(index) : '';
+  };
+
+  const addEmotion = () => {
+    const emotion = newEmotion.trim().toLowerCase();
+    if (!emotion || emotion in emotionMap) return;
+    onChange(emotion, 0);
+    setNewEmotion('');
+  };
+
+  return (
+    <Section title={t('settings.live2d.emotionMap')}>
+      {Object.entries(emotionMap).map(([emotion, expression]) => (
+        <HStack key={emotion} {...editorStyles.entry}>
+          <Box flex={1}>
+            <SelectField
+              label={emotion}
+              value={[toIndex(expression)]}
+              onChange={(value) => value[0] !== undefined && onChange(emotion, Number(value[0]))}
+              collection={expressionCollection}
+              placeholder={String(expression)}
+            />
+          </Box>
+          <Button {...styles.button} {...editorStyles.deleteButton} onClick={() => onChange(emotion, null)}>
+            {t('settings.live2d.remove')}
+          </Button>
+        </HStack>
+      ))}
+      <HStack>
+        <Input
+          {...settingStyles.common.input}
+          size="sm"
+          value={newEmotion}
+          placeholder={t('settings.live2d.emotionPlaceholder')}
+          onChange={(e) => setNewEmotion(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addEmotion()}
+        />
+        <Button {...styles.button} {...editorStyles.button} mt={0} onClick={addEmotion}>
+          {t('settings.live2d.addEmotion')}
+        </Button>
+      </HStack>
+    </Section>
+  );
+}
+
+interface TapMotionEditorProps {
+  tapMotions: TapMotionMap
+  inspection: ModelInspection
+  onChange: (hitArea: string, group: string, weight: number) => void
+}
+
+/**
+ * Weights of the motion groups played when a hit area is tapped
+ */
+export function TapMotionEditor({
+  tapMotions, inspection, onChange,
+}: TapMotionEditorProps): JSX.Element {
+  const { t } = useI18n();
+  // Keep areas from the ModelInfo even if this model does not define them
+  const hitAreas = Array.from(new Set([...inspection.hitAreas, ...Object.keys(tapMotions)]));
+  const groups = Array.from(new Set([
+    ...inspection.motionGroups.map(({ name }) => name),
+    ...Object.values(tapMotions).flatMap((motions) => Object.keys(motions)),
+  ]));
+
+  return (
+    <Section title={t('settings.live2d.tapMotions')}>
+      {hitAreas.length === 0 && (
+        <Text {...styles.empty}>{t('settings.live2d.noHitAreas')}</Text>
+      )}
+      {hitAreas.map((hitArea) => (
+        <Stack key={hitArea} {...styles.hitArea}>
+          <Text {...styles.hitAreaName}>{hitArea}</Text>
+          {groups.map((group) => (
+            <NumberField
+              key={group}
+              label={group || t('settings.live2d.unnamedGroup')}
+              value={tapMotions[hitArea]?.[group] ?? 0}
+              onChange={(value) => {
+                const weight = Number(value);
+                if (!Number.isNaN(weight) && weight >= 0) onChange(hitArea, group, weight);
+              }}
+              min={0}
+              max={100}
+              step={5}
+            />
+          ))}
+        </Stack>
+      ))}
+    </Section>
+  );
+}
+
+/**
+ * The edited ModelInfo as a model_dict.json entry, ready to copy
+ */
+export function ModelInfoExport({ entry }: { entry: string }): JSX.Element {
+  const { t } = useI18n();
+
+  const copy = () => {
+    navigator.clipboard.writeText(entry).then(() => {
+      toaster.create({
+        title: t('settings.live2d.copied'),
+        type: 'success',
+        duration: 2000,
+      });
+    }).catch((error) => {
+      toaster.create({
+        title: t('settings.live2d.copyFailed'),
+        description: error instanceof Error ? error.message : String(error),
+        type: 'error',
+        duration: 2000,
+      });
+    });
+  };
+
+  return (
+    <Section title={t('settings.live2d.exportModelInfo')}>
+      <Text {...styles.empty}>{t('settings.live2d.exportHint')}</Text>
+      <Textarea {...styles.export} value={entry} readOnly />
+      <Button {...styles.button} {...settingStyles.live2d.emotionMap.button} onClick={copy}>
+        {t('settings.live2d.copy')}
+      </Button>
+    </Section>
+  );
+}
@@ -1,21 +1,45 @@
-import { Stack } from '@chakra-ui/react';
-import { useEffect } from 'react';
+import { Button, Stack, createListCollection } from '@chakra-ui/react';
+import { useEffect, useMemo } from 'react';
 import { settingStyles } from './setting-styles';
 import { useLive2dSettings } from '@/hooks/sidebar/setting/use-live2d-settings';
-import { SwitchField } from './common';
+import { useLive2DInspector } from '@/hooks/sidebar/setting/use-live2d-inspector';
+import { useI18n } from '@/context/i18n-context';
+import {
+  SwitchField, NumberField, InputField, SelectField,
+} from './common';
+import {
+  ModelInspector, EmotionMapEditor, TapMotionEditor, ModelInfoExport,
+} from './live2d-inspector';
+import { LocalModelLibrary } from './local-model-library';
+import {
+  DEFAULT_LIP_SYNC_GAIN, DEFAULT_LIP_SYNC_SMOOTHING,
+} from '@/hooks/canvas/use-lip-sync';
+import { DEFAULT_CURSOR_GAZE_STRENGTH } from '@/hooks/canvas/use-cursor-gaze';
 
-interface live2DProps {
+interface Live2DProps {
   onSave?: (callback: () => void) => () => void
   onCancel?: (callback: () => void) => () => void
 }
 
-function live2D({ onSave, onCancel }: live2DProps): JSX.Element {
+function Live2D({ onSave, onCancel }: Live2DProps): JSX.Element {
+  const { t } = useI18n();
   const {
     modelInfo,
+    modelDictEntry,
+    hasSavedTransform,
+    resetModelTransform,
     handleInputChange,
+    handleEmotionChange,
+    handleTapMotionChange,
     handleSave,
     handleCancel,
   } = useLive2dSettings();
+  const inspector = useLive2DInspector();
+  const { inspection } = inspector;
+
+  const motionGroupCollection = useMemo(() => createListCollection({
+    items: inspection.motionGroups.map(({ name }) => ({ label: name, value: name })),
+  }), [inspection.motionGroups]);
 
   useEffect(() => {
     if (!onSave || !onCancel) return;
@@ -31,19 +55,113 @@ function live2D({ onSave, onCancel }: live2DProps): JSX.Element {
 
   return (
     <Stack {...settingStyles.common.container}>
+      <LocalModelLibrary />
+
+      <Button
+        {...settingStyles.tts.previewButton}
+        variant="outline"
+        disabled={!hasSavedTransform}
+        onClick={resetModelTransform}
+      >
+        {t('settings.live2d.resetTransform')}
+      </Button>
+
       <SwitchField
-        label="Pointer Interactive"
+        label={t('settings.live2d.pointerInteractive')}
         checked={modelInfo.pointerInteractive ?? false}
         onChange={(checked) => handleInputChange('pointerInteractive', checked)}
       />
 
       <SwitchField
-        label="Enable Scroll to Resize"
+        label={t('settings.live2d.scrollToResize')}
         checked={modelInfo.scrollToResize ?? true}
         onChange={(checked) => handleInputChange('scrollToResize', checked)}
       />
+
+      <SwitchField
+        label={t('settings.live2d.cursorGaze')}
+        checked={modelInfo.cursorGaze ?? true}
+        onChange={(checked) => handleInputChange('cursorGaze', checked)}
+      />
+
+      {(modelInfo.cursorGaze ?? true) && (
+        <NumberField
+          label={t('settings.live2d.cursorGazeStrength')}
+          value={modelInfo.cursorGazeStrength ?? DEFAULT_CURSOR_GAZE_STRENGTH}
+          onChange={(value) => {
+            const strength = Number(value);
+            if (strength >= 0 && strength <= 1) handleInputChange('cursorGazeStrength', strength);
+          }}
+          min={0}
+          max={1}
+          step={0.1}
+          allowMouseWheel
+        />
+      )}
+
+      <InputField
+        label={t('settings.live2d.lipSyncParamIds')}
+        value={modelInfo.lipSyncParamIds?.join(',') ?? ''}
+        onChange={(value) => handleInputChange('lipSyncParamIds', value ? value.split(',') : undefined)}
+        placeholder={t('settings.live2d.lipSyncParamIdsPlaceholder')}
+      />
+
+      <NumberField
+        label={t('settings.live2d.lipSyncGain')}
+        value={modelInfo.lipSyncGain ?? DEFAULT_LIP_SYNC_GAIN}
+        onChange={(value) => {
+          const gain = Number(value);
+          if (!Number.isNaN(gain) && gain >= 0) handleInputChange('lipSyncGain', gain);
+        }}
+        min={0}
+        max={5}
+        step={0.1}
+        allowMouseWheel
+      />
+
+      <NumberField
+        label={t('settings.live2d.lipSyncSmoothing')}
+        value={modelInfo.lipSyncSmoothing ?? DEFAULT_LIP_SYNC_SMOOTHING}
+        onChange={(value) => {
+          const smoothing = Number(value);
+          if (smoothing >= 0 && smoothing < 1) handleInputChange('lipSyncSmoothing', smoothing);
+        }}
+        min={0}
+        max={0.95}
+        step={0.05}
+        allowMouseWheel
+      />
+
+      <ModelInspector inspector={inspector} tapMotions={modelInfo.tapMotions} />
+
+      <SelectField
+        label={t('settings.live2d.idleMotionGroup')}
+        value={modelInfo.idleMotionGroupName ? [modelInfo.idleMotionGroupName] : []}
+        onChange={(value) => handleInputChange('idleMotionGroupName', value[0])}
+        collection={motionGroupCollection}
+        placeholder={t('settings.live2d.selectMotionGroup')}
+      />
+
+      <EmotionMapEditor
+        emotionMap={modelInfo.emotionMap ?? {}}
+        inspection={inspection}
+        onChange={handleEmotionChange}
+      />
+
+      <TapMotionEditor
+        tapMotions={modelInfo.tapMotions ?? {}}
+        inspection={inspection}
+        onChange={handleTapMotionChange}
+      />
+
+      <ModelInfoExport entry={modelDictEntry} />
     </Stack>
   );
 }
 
-export default live2D;
+Live2D.defaultProps = {
+  onSave: () => () => {},
+  onCancel: () => () => {},
+};
+
+export default Live2D;
@@ -0,0 +1,73 @@
+import {
+  Box, Button, HStack, Stack, Text,
+} from '@chakra-ui/react';
+import { settingStyles } from './setting-styles';
+import { useI18n } from '@/context/i18n-context';
+import { useLocalAssets } from '@/context/local-asset-context';
+
+const styles = settingStyles.live2d.inspector;
+
+/**
+ * Models opened from disk; the active one is shown instead of the server's
+ */
+export function LocalModelLibrary(): JSX.Element | null {
+  const { t } = useI18n();
+  const {
+    isAvailable,
+    localModels,
+    activeLocalModel,
+    setActiveLocalModel,
+    openLocalModel,
+    removeLocalAsset,
+  } = useLocalAssets();
+
+  if (!isAvailable) return null;
+
+  return (
+    <Stack {...styles.section}>
+      <Text {...settingStyles.live2d.emotionMap.title}>{t('settings.live2d.localModels')}</Text>
+      <Text {...styles.empty}>{t('settings.live2d.localModelsHint')}</Text>
+
+      {localModels.length > 0 && (
+        <Box {...styles.list}>
+          {localModels.map((model) => {
+            const isActive = model.url === activeLocalModel?.url;
+            return (
+              <HStack key={model.url} {...styles.row}>
+                <Text {...styles.name} title={model.url}>{model.name}</Text>
+                <Button
+                  {...styles.button}
+                  colorPalette={isActive ? 'blue' : 'gray'}
+                  onClick={() => setActiveLocalModel(isActive ? null : model.url)}
+                >
+                  {isActive ? t('settings.live2d.inUse') : t('settings.live2d.use')}
+                </Button>
+                <Button
+                  {...styles.button}
+                  {...settingStyles.live2d.emotionMap.deleteButton}
+                  onClick={() => removeLocalAsset(model.url)}
+                >
+                  {t('settings.live2d.remove')}
+                </Button>
+              </HStack>
+            );
+          })}
+        </Box>
+      )}
+
+      <HStack>
+        <Button {...styles.button} onClick={() => openLocalModel(false)}>
+          {t('settings.live2d.openModelFile')}
+        </Button>
+        <Button {...styles.button} onClick={() => openLocalModel(true)}>
+          {t('settings.live2d.openModelFolder')}
+        </Button>
+        {activeLocalModel && (
+          <Button {...styles.button} onClick={() => setActiveLocalModel(null)}>
+            {t('settings.live2d.useServerModel')}
+          </Button>
+        )}
+      </HStack>
+    </Stack>
+  );
+}
@@ -138,6 +138,12 @@ export const settingStyles = {
       fontSize: '14px',
       color: 'gray.600',
     },
+    localBackgroundButton: {
+      colorPalette: 'blue',
+      size: 'sm' as const,
+      variant: 'outline' as const,
+      alignSelf: 'flex-start',
+    },
   },
   common: {
     field: {
@@ -179,6 +185,103 @@ export const settingStyles = {
       },
     },
   },
+  asr: {
+    levelMeter: {
+      container: {
+        width: '100%',
+        gap: 3,
+      },
+      track: {
+        flex: 1,
+        height: '8px',
+        bg: 'whiteAlpha.200',
+        borderRadius: 'full',
+        overflow: 'hidden',
+      },
+      fill: {
+        height: '100%',
+        bg: 'green.400',
+        borderRadius: 'full',
+        transition: 'width 0.05s linear',
+      },
+      error: {
+        flex: 1,
+        fontSize: 'xs',
+        color: 'red.300',
+      },
+      button: {
+        size: 'xs' as const,
+        variant: 'outline' as const,
+        colorPalette: 'gray',
+      },
+    },
+    vadGraph: {
+      container: {
+        gap: 4,
+      },
+      canvas: {
+        width: '100%',
+        height: '100px',
+        bg: 'whiteAlpha.100',
+        borderRadius: 'md',
+        display: 'block',
+      },
+      calibration: {
+        gap: 2,
+        p: 3,
+        borderRadius: 'md',
+        border: '1px solid',
+        borderColor: 'whiteAlpha.200',
+      },
+      title: {
+        fontSize: 'sm',
+        fontWeight: 'semibold',
+        color: 'whiteAlpha.800',
+      },
+      instructions: {
+        fontSize: 'xs',
+        color: 'whiteAlpha.700',
+      },
+    },
+  },
+  shortcuts: {
+    row: {
+      width: '100%',
+      gap: 2,
+    },
+    binding: {
+      flex: 1,
+      size: 'sm' as const,
+      variant: 'outline' as const,
+      fontFamily: 'mono',
+      justifyContent: 'flex-start',
+    },
+    clearButton: {
+      size: 'sm' as const,
+      variant: 'ghost' as const,
+      colorPalette: 'gray',
+    },
+    error: {
+      fontSize: 'xs',
+      color: 'red.300',
+    },
+    hint: {
+      fontSize: 'xs',
+      color: 'whiteAlpha.600',
+    },
+  },
+  tts: {
+    previewButton: {
+      colorPalette: 'blue',
+      size: 'sm' as const,
+      alignSelf: 'flex-start',
+    },
+    previewHint: {
+      fontSize: 'xs',
+      color: 'whiteAlpha.600',
+      mt: -2,
+    },
+  },
   live2d: {
     container: {
       gap: 8,
@@ -201,5 +304,57 @@ export const settingStyles = {
         colorPalette: 'red',
       },
     },
+    inspector: {
+      section: {
+        gap: 3,
+      },
+      list: {
+        maxH: '200px',
+        overflowY: 'auto' as const,
+        borderRadius: 'md',
+        bg: 'whiteAlpha.50',
+        px: 2,
+        py: 1,
+      },
+      row: {
+        py: 1,
+        gap: 2,
+      },
+      name: {
+        flex: 1,
+        fontSize: 'sm',
+        truncate: true,
+      },
+      detail: {
+        fontSize: 'xs',
+        color: 'whiteAlpha.600',
+      },
+      button: {
+        size: 'xs' as const,
+        variant: 'outline' as const,
+        colorPalette: 'gray',
+      },
+      empty: {
+        fontSize: 'xs',
+        color: 'whiteAlpha.600',
+      },
+      hitArea: {
+        gap: 2,
+        pl: 2,
+        borderLeft: '2px solid',
+        borderColor: 'whiteAlpha.300',
+      },
+      hitAreaName: {
+        fontSize: 'sm',
+        fontWeight: 'semibold',
+      },
+      export: {
+        fontFamily: 'mono',
+        fontSize: 'xs',
+        rows: 10,
+        bg: 'whiteAlpha.100',
+        borderColor: 'whiteAlpha.200',
+      },
+    },
   },
 };
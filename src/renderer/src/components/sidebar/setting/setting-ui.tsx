@@ -12,6 +12,7 @@ import {
 } from '@chakra-ui/react';
 import { useState, useMemo, useCallback } from 'react';
 import { CloseButton } from '@/components/ui/close-button';
+import { useI18n } from '@/context/i18n-context';
 
 import { settingStyles } from './setting-styles';
 import General from './general';
@@ -19,6 +20,7 @@ import Live2D from './live2d';
 import ASR from './asr';
 import TTS from './tts';
 import Agent from './agent';
+import Shortcuts from './shortcuts';
 import About from './about';
 
 interface SettingUIProps {
@@ -28,6 +30,7 @@ interface SettingUIProps {
 }
 
 function SettingUI({ open, onClose }: SettingUIProps): JSX.Element {
+  const { t } = useI18n();
   const [saveHandlers, setSaveHandlers] = useState<(() => void)[]>([]);
   const [cancelHandlers, setCancelHandlers] = useState<(() => void)[]>([]);
   const [activeTab, setActiveTab] = useState('general');
@@ -75,7 +78,10 @@ function SettingUI({ open, onClose }: SettingUIProps): JSX.Element {
           <ASR onSave={handleSaveCallback} onCancel={handleCancelCallback} />
         </Tabs.Content>
         <Tabs.Content value="tts" {...settingStyles.settingUI.tabs.content}>
-          <TTS />
+          <TTS
+            onSave={handleSaveCallback}
+            onCancel={handleCancelCallback}
+          />
         </Tabs.Content>
         <Tabs.Content value="agent" {...settingStyles.settingUI.tabs.content}>
           <Agent
@@ -83,6 +89,12 @@ function SettingUI({ open, onClose }: SettingUIProps): JSX.Element {
             onCancel={handleCancelCallback}
           />
         </Tabs.Content>
+        <Tabs.Content value="shortcuts" {...settingStyles.settingUI.tabs.content}>
+          <Shortcuts
+            onSave={handleSaveCallback}
+            onCancel={handleCancelCallback}
+          />
+        </Tabs.Content>
         <Tabs.Content value="about" {...settingStyles.settingUI.tabs.content}>
           <About />
         </Tabs.Content>
@@ -101,7 +113,7 @@ function SettingUI({ open, onClose }: SettingUIProps): JSX.Element {
       <DrawerContent {...settingStyles.settingUI.drawerContent}>
         <DrawerHeader {...settingStyles.settingUI.drawerHeader}>
           <DrawerTitle {...settingStyles.settingUI.drawerTitle}>
-            Settings
+            {t('settings.title')}
           </DrawerTitle>
           <div {...settingStyles.settingUI.closeButton}>
             <DrawerCloseTrigger asChild onClick={handleCancel}>
@@ -122,37 +134,43 @@ function SettingUI({ open, onClose }: SettingUIProps): JSX.Element {
                 value="general"
                 {...settingStyles.settingUI.tabs.trigger}
               >
-                General
+                {t('settings.tabs.general')}
               </Tabs.Trigger>
               <Tabs.Trigger
                 value="live2d"
                 {...settingStyles.settingUI.tabs.trigger}
               >
-                Live2D
+                {t('settings.tabs.live2d')}
               </Tabs.Trigger>
               <Tabs.Trigger
                 value="asr"
                 {...settingStyles.settingUI.tabs.trigger}
               >
-                ASR
+                {t('settings.tabs.asr')}
               </Tabs.Trigger>
               <Tabs.Trigger
                 value="tts"
                 {...settingStyles.settingUI.tabs.trigger}
               >
-                TTS
+                {t('settings.tabs.tts')}
               </Tabs.Trigger>
               <Tabs.Trigger
                 value="agent"
                 {...settingStyles.settingUI.tabs.trigger}
               >
-                Agent
+                {t('settings.tabs.agent')}
+              </Tabs.Trigger>
+              <Tabs.Trigger
+                value="shortcuts"
+                {...settingStyles.settingUI.tabs.trigger}
+              >
+                {t('settings.tabs.shortcuts')}
               </Tabs.Trigger>
               <Tabs.Trigger
                 value="about"
                 {...settingStyles.settingUI.tabs.trigger}
               >
-                About
+                {t('settings.tabs.about')}
               </Tabs.Trigger>
             </Tabs.List>
 
@@ -162,10 +180,10 @@ function SettingUI({ open, onClose }: SettingUIProps): JSX.Element {
 
         <DrawerFooter>
           <Button colorPalette="red" onClick={handleCancel}>
-            Cancel
+            {t('common.cancel')}
           </Button>
           <Button colorPalette="blue" onClick={handleSave}>
-            Save
+            {t('common.save')}
           </Button>
         </DrawerFooter>
       </DrawerContent>
@@ -0,0 +1,76 @@
+import {
+  Button, HStack, Stack, Text,
+} from '@chakra-ui/react';
+import { settingStyles } from './setting-styles';
+import { useShortcutSettings } from '@/hooks/sidebar/setting/use-shortcut-settings';
+import { useI18n } from '@/context/i18n-context';
+import { Field } from '@/components/ui/field';
+import { SHORTCUT_ACTIONS } from '@/utils/accelerator';
+
+interface ShortcutsProps {
+  onSave?: (callback: () => void) => () => void
+  onCancel?: (callback: () => void) => () => void
+}
+
+function Shortcuts({ onSave, onCancel }: ShortcutsProps): JSX.Element {
+  const { t } = useI18n();
+  const styles = settingStyles.shortcuts;
+  const {
+    isAvailable,
+    bindings,
+    failed,
+    recordingAction,
+    handleRecord,
+    handleClear,
+  } = useShortcutSettings({ onSave, onCancel });
+
+  if (!isAvailable) {
+    return <Text {...styles.hint}>{t('settings.shortcuts.desktopOnly')}</Text>;
+  }
+
+  return (
+    <Stack {...settingStyles.common.container}>
+      <Text {...styles.hint}>{t('settings.shortcuts.hint')}</Text>
+
+      {bindings && SHORTCUT_ACTIONS.map((action) => {
+        const isRecording = recordingAction === action;
+        let bindingLabel = bindings[action] || t('settings.shortcuts.unbound');
+        if (isRecording) bindingLabel = t('settings.shortcuts.pressKeys');
+        return (
+          <Field
+            key={action}
+            {...settingStyles.common.field}
+            label={<Text {...settingStyles.common.fieldLabel}>{t(`settings.shortcuts.${action}`)}</Text>}
+          >
+            <Stack gap={1} width="100%">
+              <HStack {...styles.row}>
+                <Button
+                  {...styles.binding}
+                  colorPalette={isRecording ? 'blue' : 'gray'}
+                  onClick={() => handleRecord(action)}
+                >
+                  {bindingLabel}
+                </Button>
+                {bindings[action] && (
+                  <Button {...styles.clearButton} onClick={() => handleClear(action)}>
+                    {t('settings.shortcuts.clear')}
+                  </Button>
+                )}
+              </HStack>
+              {failed.includes(action) && (
+                <Text {...styles.error}>{t('settings.shortcuts.unavailable')}</Text>
+              )}
+            </Stack>
+          </Field>
+        );
+      })}
+    </Stack>
+  );
+}
+
+Shortcuts.defaultProps = {
+  onSave: undefined,
+  onCancel: undefined,
+};
+
+export default Shortcuts;
@@ -1,7 +1,140 @@
-import { Box } from '@chakra-ui/react';
+import {
+  Button, Stack, Text, createListCollection,
+} from '@chakra-ui/react';
+import { useMemo } from 'react';
+import { settingStyles } from './setting-styles';
+import { useTTSSettings } from '@/hooks/sidebar/setting/use-tts-settings';
+import { useI18n } from '@/context/i18n-context';
+import {
+  SelectField, NumberField, InputField,
+} from './common';
 
-function TTS(): JSX.Element {
-  return <Box>TTS Settings Content</Box>;
+interface TTSProps {
+  onSave?: (callback: () => void) => () => void
+  onCancel?: (callback: () => void) => () => void
 }
 
+function TTS({ onSave, onCancel }: TTSProps): JSX.Element {
+  const {
+    playbackSettings,
+    voiceConfig,
+    outputRoute,
+    outputDevices,
+    handlePlaybackChange,
+    handleRouteChange,
+    handleVoiceChange,
+    previewVoice,
+  } = useTTSSettings({ onSave, onCancel });
+  const { t } = useI18n();
+
+  const outputDeviceCollection = useMemo(() => createListCollection({
+    items: [
+      { label: t('common.systemDefault'), value: '' },
+      ...outputDevices.map((device) => ({ label: device.label, value: device.deviceId })),
+    ],
+  }), [outputDevices, t]);
+
+  const mirrorDeviceCollection = useMemo(() => createListCollection({
+    items: [
+      { label: t('settings.tts.noMirror'), value: '' },
+      ...outputDevices
+        .filter((device) => device.deviceId !== outputRoute.outputDeviceId)
+        .map((device) => ({ label: device.label, value: device.deviceId })),
+    ],
+  }), [outputDevices, outputRoute.outputDeviceId, t]);
+
+  return (
+    <Stack {...settingStyles.common.container}>
+      <SelectField
+        label={t('settings.tts.outputDevice')}
+        value={[outputRoute.outputDeviceId]}
+        onChange={(value) => handleRouteChange('outputDeviceId', value[0] ?? '')}
+        collection={outputDeviceCollection}
+        placeholder={t('common.systemDefault')}
+      />
+
+      <SelectField
+        label={t('settings.tts.mirrorDevice')}
+        value={[outputRoute.mirrorDeviceId]}
+        onChange={(value) => handleRouteChange('mirrorDeviceId', value[0] ?? '')}
+        collection={mirrorDeviceCollection}
+        placeholder={t('settings.tts.noMirror')}
+      />
+
+      <NumberField
+        label={t('settings.tts.volume')}
+        value={Math.round(playbackSettings.volume * 100)}
+        onChange={(value) => {
+          const volume = Number(value);
+          if (!Number.isNaN(volume)) {
+            handlePlaybackChange('volume', Math.min(100, Math.max(0, volume)) / 100);
+          }
+        }}
+        min={0}
+        max={100}
+        step={5}
+        allowMouseWheel
+      />
+
+      <NumberField
+        label={t('settings.tts.playbackRate')}
+        value={playbackSettings.playbackRate}
+        onChange={(value) => {
+          const rate = Number(value);
+          if (rate > 0) handlePlaybackChange('playbackRate', rate);
+        }}
+        min={0.5}
+        max={2}
+        step={0.1}
+        allowMouseWheel
+      />
+
+      <InputField
+        label={t('settings.tts.voice')}
+        value={voiceConfig.voice}
+        onChange={(value) => handleVoiceChange('voice', value)}
+        placeholder={t('settings.tts.defaultVoice')}
+      />
+
+      <NumberField
+        label={t('settings.tts.voiceSpeed')}
+        value={voiceConfig.speed}
+        onChange={(value) => {
+          const speed = Number(value);
+          if (speed > 0) handleVoiceChange('speed', speed);
+        }}
+        min={0.5}
+        max={2}
+        step={0.1}
+        allowMouseWheel
+      />
+
+      <NumberField
+        label={t('settings.tts.voicePitch')}
+        value={voiceConfig.pitch}
+        onChange={(value) => {
+          const pitch = Number(value);
+          if (pitch > 0) handleVoiceChange('pitch', pitch);
+        }}
+        min={0.5}
+        max={2}
+        step={0.1}
+        allowMouseWheel
+      />
+
+      <Button {...settingStyles.tts.previewButton} onClick={previewVoice}>
+        {t('settings.tts.preview')}
+      </Button>
+      <Text {...settingStyles.tts.previewHint}>
+        {t('settings.tts.previewHint')}
+      </Text>
+    </Stack>
+  );
+}
+
+TTS.defaultProps = {
+  onSave: () => () => {},
+  onCancel: () => () => {},
+};
+
 export default TTS;
@@ -0,0 +1,207 @@
+import {
+  Box, Button, HStack, Stack, Text,
+} from '@chakra-ui/react';
+import {
+  MutableRefObject, useCallback, useEffect, useRef, useState,
+} from 'react';
+import { settingStyles } from './setting-styles';
+import { useI18n } from '@/context/i18n-context';
+import { MicSettings, VADSettings } from '@/context/vad-context';
+import { useVADProbe } from '@/hooks/sidebar/setting/use-vad-probe';
+import { CalibratedSettings } from '@/utils/vad-calibration';
+import { SAMPLE_COUNT, useVADCalibration } from '@/hooks/sidebar/setting/use-vad-calibration';
+import { Field } from '@/components/ui/field';
+
+// Frames shown in the graph, about 14 seconds at 96 ms per frame
+const GRAPH_FRAMES = 150;
+
+const GRAPH_COLORS = {
+  probability: '#63b3ed',
+  positive: '#68d391',
+  negative: '#f6ad55',
+};
+
+const styles = settingStyles.asr.vadGraph;
+
+interface ProbabilityGraphProps {
+  historyRef: MutableRefObject<number[]>
+  // Thresholds from 0 to 100, as in VADSettings
+  positive: number
+  negative: number
+}
+
+/**
+ * Rolling graph of frame probabilities with the thresholds overlaid
+ */
+function ProbabilityGraph({ historyRef, positive, negative }: ProbabilityGraphProps): JSX.Element {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return undefined;
+    let frameId = 0;
+
+    const drawThreshold = (value: number, color: string) => {
+      const y = canvas.height * (1 - value / 100);
+      context.strokeStyle = color;
+      context.setLineDash([4, 4]);
+      context.beginPath();
+      context.moveTo(0, y);
+      context.lineTo(canvas.width, y);
+      context.stroke();
+      context.setLineDash([]);
+    };
+
+    const draw = () => {
+      const dpr = window.devicePixelRatio || 1;
+      const width = Math.round(canvas.clientWidth * dpr);
+      const height = Math.round(canvas.clientHeight * dpr);
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      context.clearRect(0, 0, width, height);
+      context.lineWidth = dpr;
+
+      drawThreshold(positive, GRAPH_COLORS.positive);
+      drawThreshold(negative, GRAPH_COLORS.negative);
+
+      const history = historyRef.current;
+      const step = width / (GRAPH_FRAMES - 1);
+      const offset = GRAPH_FRAMES - history.length;
+      context.strokeStyle = GRAPH_COLORS.probability;
+      context.beginPath();
+      history.forEach((probability, index) => {
+        const x = (offset + index) * step;
+        const y = height * (1 - probability);
+        if (index === 0) context.moveTo(x, y);
+        else context.lineTo(x, y);
+      });
+      context.stroke();
+
+      frameId = requestAnimationFrame(draw);
+    };
+    draw();
+
+    return () => cancelAnimationFrame(frameId);
+  }, [historyRef, positive, negative]);
+
+  return <Box as="canvas" ref={canvasRef} {...styles.canvas} />;
+}
+
+interface VADCalibrationProps {
+  micSettings: MicSettings
+  settings: VADSettings
+  onApply: (settings: CalibratedSettings) => void
+}
+
+/**
+ * Live speech probability of the microphone, and a wizard that suggests
+ * thresholds from the room noise and a few sample sentences
+ */
+export function VADCalibration({ micSettings, settings, onApply }: VADCalibrationProps): JSX.Element {
+  const { t } = useI18n();
+  const [monitoring, setMonitoring] = useState(false);
+  const historyRef = useRef<number[]>([]);
+  const {
+    step,
+    sampleIndex,
+    suggestion,
+    isRunning,
+    pushProbability,
+    start,
+    recordSample,
+    cancel,
+  } = useVADCalibration();
+
+  const handleProbability = useCallback((probability: number) => {
+    const history = historyRef.current;
+    history.push(probability);
+    if (history.length > GRAPH_FRAMES) history.shift();
+    pushProbability(probability);
+  }, [pushProbability]);
+
+  const active = monitoring || isRunning;
+  const { error } = useVADProbe(micSettings, active, handleProbability);
+
+  useEffect(() => {
+    if (!active) historyRef.current = [];
+  }, [active]);
+
+  const instructions: Record<typeof step, string> = {
+    idle: t('settings.asr.calibration.intro'),
+    noise: t('settings.asr.calibration.noise'),
+    ready: t('settings.asr.calibration.ready', { current: sampleIndex + 1, total: SAMPLE_COUNT }),
+    sample: t('settings.asr.calibration.sample'),
+    done: suggestion ? t('settings.asr.calibration.done', {
+      positive: suggestion.positiveSpeechThreshold,
+      negative: suggestion.negativeSpeechThreshold,
+      frames: suggestion.redemptionFrames,
+    }) : '',
+    failed: t('settings.asr.calibration.failed'),
+  };
+
+  return (
+    <Stack {...styles.container}>
+      <Field
+        {...settingStyles.common.field}
+        label={<Text {...settingStyles.common.fieldLabel}>{t('settings.asr.speechProbability')}</Text>}
+      >
+        <HStack {...settingStyles.asr.levelMeter.container}>
+          {error ? (
+            <Text {...settingStyles.asr.levelMeter.error}>{error}</Text>
+          ) : (
+            <Box flex={1} />
+          )}
+          <Button
+            {...settingStyles.asr.levelMeter.button}
+            disabled={isRunning}
+            onClick={() => setMonitoring(!monitoring)}
+          >
+            {monitoring ? t('settings.asr.stopTest') : t('settings.asr.testMic')}
+          </Button>
+        </HStack>
+      </Field>
+
+      {active && !error && (
+        <ProbabilityGraph
+          historyRef={historyRef}
+          positive={Number(settings.positiveSpeechThreshold) || 0}
+          negative={Number(settings.negativeSpeechThreshold) || 0}
+        />
+      )}
+
+      <Stack {...styles.calibration}>
+        <Text {...styles.title}>{t('settings.asr.calibration.title')}</Text>
+        <Text {...styles.instructions}>{instructions[step]}</Text>
+        <HStack>
+          {(step === 'idle' || step === 'done' || step === 'failed') && (
+            <Button {...settingStyles.asr.levelMeter.button} onClick={start}>
+              {step === 'idle' ? t('settings.asr.calibration.start') : t('settings.asr.calibration.restart')}
+            </Button>
+          )}
+          {step === 'ready' && (
+            <Button {...settingStyles.asr.levelMeter.button} colorPalette="blue" onClick={recordSample}>
+              {t('settings.asr.calibration.record')}
+            </Button>
+          )}
+          {step === 'done' && suggestion && (
+            <Button
+              {...settingStyles.asr.levelMeter.button}
+              colorPalette="blue"
+              onClick={() => onApply(suggestion)}
+            >
+              {t('settings.asr.calibration.apply')}
+            </Button>
+          )}
+          {isRunning && (
+            <Button {...settingStyles.asr.levelMeter.button} onClick={cancel}>
+              {t('common.cancel')}
+            </Button>
+          )}
+        </HStack>
+      </Stack>
+    </Stack>
+  );
+}
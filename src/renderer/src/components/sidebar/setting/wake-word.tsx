@@ -0,0 +1,95 @@
+import {
+  Button, HStack, Stack, Text,
+} from '@chakra-ui/react';
+import { useCallback } from 'react';
+import { settingStyles } from './setting-styles';
+import { useI18n } from '@/context/i18n-context';
+import { MicSettings, WakeWordSettings } from '@/context/vad-context';
+import { Features } from '@/utils/keyword-spotter';
+import {
+  WAKE_WORD_SAMPLE_COUNT, useWakeWordEnrollment,
+} from '@/hooks/sidebar/setting/use-wake-word-enrollment';
+import { InputField, NumberField } from './common';
+
+const styles = settingStyles.asr.vadGraph;
+
+interface WakeWordProps {
+  micSettings: MicSettings
+  settings: WakeWordSettings
+  onChange: (changes: Partial<WakeWordSettings>) => void
+}
+
+/**
+ * Wake-word phrase, follow-up window, and recording the phrase for the spotter
+ */
+export function WakeWord({ micSettings, settings, onChange }: WakeWordProps): JSX.Element {
+  const { t } = useI18n();
+  const handleEnrolled = useCallback(
+    (model: { templates: Features[]; threshold: number }) => onChange(model),
+    [onChange],
+  );
+  const {
+    step, recorded, error, start, cancel,
+  } = useWakeWordEnrollment(micSettings, handleEnrolled);
+  const enrolled = settings.templates.length > 0;
+
+  const status = {
+    idle: enrolled
+      ? t('settings.asr.wakeWord.enrolled', { count: settings.templates.length })
+      : t('settings.asr.wakeWord.notEnrolled'),
+    recording: t('settings.asr.wakeWord.recording', {
+      phrase: settings.phrase,
+      current: recorded + 1,
+      total: WAKE_WORD_SAMPLE_COUNT,
+    }),
+    failed: t('settings.asr.wakeWord.failed'),
+  }[step];
+
+  return (
+    <>
+      <InputField
+        label={t('settings.asr.wakeWord.phrase')}
+        value={settings.phrase}
+        onChange={(value) => onChange({ phrase: value })}
+        placeholder={t('settings.asr.wakeWord.phrasePlaceholder')}
+      />
+
+      <NumberField
+        label={t('settings.asr.wakeWord.followUpSeconds')}
+        value={settings.followUpSeconds}
+        onChange={(value) => onChange({ followUpSeconds: Number(value) || 0 })}
+        min={0}
+        max={120}
+      />
+
+      <Stack {...styles.calibration}>
+        <Text {...styles.title}>{t('settings.asr.wakeWord.title')}</Text>
+        <Text {...styles.instructions}>{error || status}</Text>
+        <HStack>
+          {step === 'recording' ? (
+            <Button {...settingStyles.asr.levelMeter.button} onClick={cancel}>
+              {t('common.cancel')}
+            </Button>
+          ) : (
+            <Button
+              {...settingStyles.asr.levelMeter.button}
+              colorPalette="blue"
+              disabled={!settings.phrase.trim()}
+              onClick={start}
+            >
+              {enrolled ? t('settings.asr.wakeWord.rerecord') : t('settings.asr.wakeWord.record')}
+            </Button>
+          )}
+          {enrolled && step !== 'recording' && (
+            <Button
+              {...settingStyles.asr.levelMeter.button}
+              onClick={() => onChange({ templates: [], threshold: 0 })}
+            >
+              {t('settings.asr.wakeWord.clear')}
+            </Button>
+          )}
+        </HStack>
+      </Stack>
+    </>
+  );
+}
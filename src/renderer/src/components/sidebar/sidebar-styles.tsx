@@ -151,6 +151,11 @@ export const sidebarStyles = {
       fontSize: 'xs',
       color: 'whiteAlpha.900',
     },
+    status: {
+      fontSize: '2xs',
+      mt: 1,
+      textAlign: 'right',
+    },
     dot: {
       position: 'absolute',
       w: '2',
@@ -4,6 +4,15 @@ import {
 import { Message } from '@/services/websocket-service';
 import { HistoryInfo } from './websocket-context';
 
+/**
+ * Options for a human message that was queued by the WebSocket outbox
+ * @interface HumanMessageOptions
+ */
+interface HumanMessageOptions {
+  id?: string;
+  status?: Message['status'];
+}
+
 /**
  * Chat history context state interface
  * @interface ChatHistoryState
@@ -12,9 +21,11 @@ interface ChatHistoryState {
   messages: Message[];
   historyList: HistoryInfo[];
   currentHistoryUid: string | null;
-  appendHumanMessage: (content: string) => void;
+  appendHumanMessage: (content: string, options?: HumanMessageOptions) => void;
+  updateMessageStatus: (id: string, status: Message['status']) => void;
   appendAIMessage: (content: string) => void;
   setMessages: (messages: Message[]) => void;
+  loadHistoryMessages: (messages: Message[]) => void;
   setHistoryList: (
     value: HistoryInfo[] | ((prev: HistoryInfo[]) => HistoryInfo[])
   ) => void;
@@ -62,17 +73,45 @@ export function ChatHistoryProvider({ children }: { children: React.ReactNode })
   /**
    * Append a human message to the chat history
    * @param content - Message content
+   * @param options - Outbox id and delivery status of the message
    */
-  const appendHumanMessage = useCallback((content: string) => {
+  const appendHumanMessage = useCallback((content: string, options?: HumanMessageOptions) => {
     const newMessage: Message = {
-      id: Date.now().toString(),
+      id: options?.id ?? Date.now().toString(),
       content,
       role: 'human',
       timestamp: new Date().toISOString(),
+      status: options?.status,
     };
     setMessages((prevMessages) => [...prevMessages, newMessage]);
   }, []);
 
+  /**
+   * Update the delivery status of a message, if it is in the chat history
+   * @param id - Message id
+   * @param status - New status, undefined once delivered
+   */
+  const updateMessageStatus = useCallback((id: string, status: Message['status']) => {
+    setMessages((prevMessages) => {
+      if (!prevMessages.some((message) => message.id === id)) return prevMessages;
+      return prevMessages.map((message) => (
+        message.id === id ? { ...message, status } : message
+      ));
+    });
+  }, []);
+
+  /**
+   * Show a history sent by the server. Messages the outbox has not delivered
+   * are not part of it yet, so they stay at the end.
+   * @param history - Messages of the history
+   */
+  const loadHistoryMessages = useCallback((history: Message[]) => {
+    setMessages((prevMessages) => [
+      ...history,
+      ...prevMessages.filter((message) => message.status !== undefined),
+    ]);
+  }, []);
+
   /**
    * Append or update an AI message in the chat history
    * @param content - Message content
@@ -157,8 +196,10 @@ export function ChatHistoryProvider({ children }: { children: React.ReactNode })
       historyList,
       currentHistoryUid,
       appendHumanMessage,
+      updateMessageStatus,
       appendAIMessage,
       setMessages,
+      loadHistoryMessages,
       setHistoryList,
       setCurrentHistoryUid,
       updateHistoryList,
@@ -173,7 +214,9 @@ export function ChatHistoryProvider({ children }: { children: React.ReactNode })
       historyList,
       currentHistoryUid,
       appendHumanMessage,
+      updateMessageStatus,
       appendAIMessage,
+      loadHistoryMessages,
       updateHistoryList,
       fullResponse,
       appendResponse,
@@ -0,0 +1,78 @@
+import {
+  createContext, useContext, ReactNode, useCallback, useEffect, useMemo,
+} from 'react';
+import { useLocalStorage } from '@/hooks/utils/use-local-storage';
+import {
+  Language, TranslateParams, detectLanguage, isSupportedLanguage, translate,
+} from '@/i18n';
+
+/**
+ * I18n context state interface
+ * @interface I18nContextState
+ */
+interface I18nContextState {
+  /** Current UI language */
+  language: Language;
+
+  /** Switch the UI language; applies immediately, no reload needed */
+  setLanguage: (language: Language) => void;
+
+  /** Translate a dotted catalog key in the current language */
+  t: (key: string, params?: TranslateParams) => string;
+}
+
+const I18nContext = createContext<I18nContextState | null>(null);
+
+/**
+ * I18n Provider Component
+ * Holds the UI language, defaulting to the system locale on first launch
+ *
+ * @param {Object} props - Provider props
+ * @param {React.ReactNode} props.children - Child components
+ */
+export function I18nProvider({ children }: { children: ReactNode }) {
+  const [storedLanguage, setStoredLanguage] = useLocalStorage<string>(
+    'language',
+    detectLanguage(),
+  );
+  const language = isSupportedLanguage(storedLanguage) ? storedLanguage : detectLanguage();
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const setLanguage = useCallback((next: Language) => {
+    setStoredLanguage(next);
+  }, [setStoredLanguage]);
+
+  const t = useCallback(
+    (key: string, params?: TranslateParams) => translate(language, key, params),
+    [language],
+  );
+
+  const contextValue = useMemo(() => ({
+    language,
+    setLanguage,
+    t,
+  }), [language, setLanguage, t]);
+
+  return (
+    <I18nContext.Provider value={contextValue}>
+      {children}
+    </I18nContext.Provider>
+  );
+}
+
+/**
+ * Custom hook to use the i18n context
+ * @throws {Error} If used outside of I18nProvider
+ */
+export function useI18n() {
+  const context = useContext(I18nContext);
+
+  if (!context) {
+    throw new Error('useI18n must be used within an I18nProvider');
+  }
+
+  return context;
+}
@@ -8,7 +8,7 @@ import { useConfig } from '@/context/character-config-context';
  * Model emotion mapping interface
  * @interface EmotionMap
  */
-interface EmotionMap {
+export interface EmotionMap {
   [key: string]: number | string;
 }
 
@@ -65,6 +65,34 @@ export interface ModelInfo {
 
   /** Enable scroll to resize */
   scrollToResize?: boolean;
+
+  /** Mouth parameter ids driven by lip-sync, defaults to the model's LipSync group */
+  lipSyncParamIds?: string[];
+
+  /** Multiplier applied to speech loudness before it opens the mouth */
+  lipSyncGain?: number;
+
+  /** Lip-sync smoothing, from 0 (none) to just below 1 (very slow) */
+  lipSyncSmoothing?: number;
+
+  /** Follow the desktop cursor with the eyes and head in pet mode */
+  cursorGaze?: boolean;
+
+  /** How far the model turns toward the cursor, from 0 to 1 */
+  cursorGazeStrength?: number;
+}
+
+/**
+ * Where the user dragged and scaled a model to, overriding ModelInfo's defaults
+ * @interface ModelTransform
+ */
+export interface ModelTransform {
+  /** Scale replacing kScale */
+  scale?: number;
+
+  /** Centre of the model as a fraction of the canvas width and height */
+  x?: number;
+  y?: number;
 }
 
 /**
@@ -76,7 +104,12 @@ interface Live2DConfigState {
   setModelInfo: (info: ModelInfo | undefined) => void;
   isLoading: boolean;
   setIsLoading: (loading: boolean) => void;
+  /** Saved transform of the current model in the current window mode */
+  modelTransform: ModelTransform | null;
   updateModelScale: (newScale: number) => void;
+  updateModelPosition: (x: number, y: number) => void;
+  /** Forget the saved transform, returning to kScale and the initial shift */
+  resetModelTransform: () => void;
 }
 
 /**
@@ -111,18 +144,21 @@ export function Live2DConfigProvider({ children }: { children: React.ReactNode }
     return () => unsubscribe?.();
   }, []);
 
-  const getStorageKey = (uid: string, isPetMode: boolean) => `${uid}_${isPetMode ? "pet" : "window"}`;
+  const getStorageKey = (url: string, isPetMode: boolean) => `${url}_${isPetMode ? "pet" : "window"}`;
 
   const [modelInfo, setModelInfoState] = useLocalStorage<ModelInfo | undefined>(
     'modelInfo',
     DEFAULT_CONFIG.modelInfo,
   );
 
-  const [scaleMemory, setScaleMemory] = useLocalStorage<Record<string, number>>(
-    'scale_memory',
+  const [modelTransforms, setModelTransforms] = useLocalStorage<Record<string, ModelTransform>>(
+    'modelTransforms',
     {},
   );
 
+  const transformKey = modelInfo?.url ? getStorageKey(modelInfo.url, isPet) : null;
+  const modelTransform = transformKey ? modelTransforms[transformKey] ?? null : null;
+
   const setModelInfo = useCallback((info: ModelInfo | undefined) => {
     if (!confUid) {
       console.warn('Attempting to set model info without confUid');
@@ -134,68 +170,49 @@ export function Live2DConfigProvider({ children }: { children: React.ReactNode }
     }
 
     if (info) {
-      const storageKey = getStorageKey(confUid, isPet);
-      let finalScale: number;
-
-      const storedScale = scaleMemory[storageKey];
-      if (storedScale !== undefined) {
-        finalScale = storedScale;
-      } else {
-        finalScale = Number(info.kScale || 0.001);
-        setScaleMemory((prev) => ({
-          ...prev,
-          [storageKey]: finalScale,
-        }));
-      }
-
-      console.log("storageKey", storageKey);
-      console.log("storedScale", storedScale);
-      console.log("finalScale", finalScale);
-
       setModelInfoState({
         ...info,
-        kScale: finalScale,
         pointerInteractive: 'pointerInteractive' in info
           ? info.pointerInteractive
           : modelInfo?.pointerInteractive ?? false,
         scrollToResize: 'scrollToResize' in info
           ? info.scrollToResize
           : modelInfo?.scrollToResize ?? true,
+        cursorGaze: 'cursorGaze' in info
+          ? info.cursorGaze
+          : modelInfo?.cursorGaze,
+        cursorGazeStrength: 'cursorGazeStrength' in info
+          ? info.cursorGazeStrength
+          : modelInfo?.cursorGazeStrength,
       });
     } else {
       setModelInfoState(undefined);
     }
-  }, [confUid, isPet, scaleMemory, modelInfo, setModelInfoState, setScaleMemory]);
-
-  const updateModelScale = useCallback((newScale: number) => {
-    if (modelInfo) {
-      const storageKey = getStorageKey(confUid, isPet);
-      const fixedScale = Number(newScale.toFixed(8));
-      setScaleMemory((prev) => ({
-        ...prev,
-        [storageKey]: fixedScale,
-      }));
+  }, [confUid, modelInfo, setModelInfoState]);
 
-      setModelInfoState({
-        ...modelInfo,
-        kScale: fixedScale,
-      });
-    }
-  }, [modelInfo, confUid, isPet, setScaleMemory, setModelInfoState]);
+  const updateModelTransform = useCallback((updates: ModelTransform) => {
+    if (!transformKey) return;
+    setModelTransforms((prev) => ({
+      ...prev,
+      [transformKey]: { ...prev[transformKey], ...updates },
+    }));
+  }, [transformKey, setModelTransforms]);
 
-  useEffect(() => {
-    if (modelInfo) {
-      const storageKey = getStorageKey(confUid, isPet);
-      const memorizedScale = scaleMemory[storageKey];
-
-      if (memorizedScale !== undefined && memorizedScale !== Number(modelInfo.kScale)) {
-        setModelInfo({
-          ...modelInfo,
-          kScale: memorizedScale,
-        });
-      }
-    }
-  }, [confUid, isPet, modelInfo?.url]);
+  const updateModelScale = useCallback((newScale: number) => {
+    updateModelTransform({ scale: Number(newScale.toFixed(8)) });
+  }, [updateModelTransform]);
+
+  const updateModelPosition = useCallback((x: number, y: number) => {
+    updateModelTransform({ x, y });
+  }, [updateModelTransform]);
+
+  const resetModelTransform = useCallback(() => {
+    if (!transformKey) return;
+    setModelTransforms((prev) => {
+      const { [transformKey]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, [transformKey, setModelTransforms]);
 
   const contextValue = useMemo(
     () => ({
@@ -203,9 +220,15 @@ export function Live2DConfigProvider({ children }: { children: React.ReactNode }
       setModelInfo,
       isLoading,
       setIsLoading,
+      modelTransform,
       updateModelScale,
+      updateModelPosition,
+      resetModelTransform,
     }),
-    [modelInfo, setModelInfo, isLoading, updateModelScale],
+    [
+      modelInfo, setModelInfo, isLoading, modelTransform,
+      updateModelScale, updateModelPosition, resetModelTransform,
+    ],
   );
 
   return (
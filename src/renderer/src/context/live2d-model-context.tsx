@@ -1,7 +1,18 @@
 import {
-  createContext, useContext, useState, memo, useCallback, useMemo,
+  createContext, useContext, useState, memo, useCallback, useMemo, useEffect, useRef,
 } from 'react';
-import { Live2DModel } from 'pixi-live2d-display-lipsyncpatch';
+import { Live2DModel, MotionPriority } from 'pixi-live2d-display-lipsyncpatch';
+import { ParameterOverrides, ParameterTarget } from '@/utils/parameter-overrides';
+import { onBeforeModelUpdate } from '@/utils/model-events';
+
+/**
+ * Timing of a parameter change, in milliseconds
+ * @interface ParameterTweenOptions
+ */
+export interface ParameterTweenOptions {
+  tweenMs?: number;
+  durationMs?: number | null;
+}
 
 /**
  * Live2D model context state interface
@@ -16,6 +27,15 @@ interface Live2DModelState {
 
   /** Update Live2D model state partially */
   updateModelState: (updates: Partial<Live2DModel>) => void;
+
+  /** Play a motion of a group, a random one when no index is given */
+  playMotion: (group: string, index?: number, priority?: MotionPriority) => Promise<boolean>;
+
+  /** Tween parameters to values and hold them, until released when no duration is given */
+  setParameters: (targets: ParameterTarget[], options?: ParameterTweenOptions) => void;
+
+  /** Stop motions, clear the expression and let go of set parameters */
+  resetPose: (tweenMs?: number) => void;
 }
 
 /**
@@ -25,6 +45,8 @@ const DEFAULT_MODEL_STATE = {
   currentModel: null as Live2DModel | null,
 };
 
+const DEFAULT_PARAMETER_TWEEN_MS = 300;
+
 /**
  * Create the Live2D model context
  */
@@ -54,14 +76,59 @@ export const Live2DModelProvider = memo(({ children }: { children: React.ReactNo
     });
   }, []);
 
+  const overridesRef = useRef<ParameterOverrides | null>(null);
+
+  // Overrides are written after motions so they win over them
+  useEffect(() => {
+    if (!currentModel) return undefined;
+    const overrides = new ParameterOverrides(currentModel);
+    overridesRef.current = overrides;
+    const removeListener = onBeforeModelUpdate(currentModel, () => overrides.apply());
+    return () => {
+      removeListener();
+      if (overridesRef.current === overrides) overridesRef.current = null;
+    };
+  }, [currentModel]);
+
+  const playMotion = useCallback(async (
+    group: string,
+    index?: number,
+    priority: MotionPriority = MotionPriority.NORMAL,
+  ) => {
+    if (!currentModel) return false;
+    return currentModel.motion(group, index, priority);
+  }, [currentModel]);
+
+  const setParameters = useCallback((
+    targets: ParameterTarget[],
+    options: ParameterTweenOptions = {},
+  ) => {
+    overridesRef.current?.set(
+      targets,
+      options.tweenMs ?? DEFAULT_PARAMETER_TWEEN_MS,
+      options.durationMs ?? null,
+    );
+  }, []);
+
+  const resetPose = useCallback((tweenMs: number = DEFAULT_PARAMETER_TWEEN_MS) => {
+    if (!currentModel) return;
+    const { motionManager } = currentModel.internalModel;
+    motionManager.stopAllMotions();
+    motionManager.expressionManager?.resetExpression();
+    overridesRef.current?.release(tweenMs);
+  }, [currentModel]);
+
   // Memoized context value
   const contextValue = useMemo(
     () => ({
       currentModel,
       setCurrentModel,
       updateModelState,
+      playMotion,
+      setParameters,
+      resetPose,
     }),
-    [currentModel, updateModelState],
+    [currentModel, updateModelState, playMotion, setParameters, resetPose],
   );
 
   return (
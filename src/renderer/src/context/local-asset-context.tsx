@@ -0,0 +1,221 @@
+import {
+  createContext, useContext, useCallback, useEffect, useMemo, useRef,
+} from 'react';
+import { useLocalStorage } from '@/hooks/utils/use-local-storage';
+import { ModelInfo, useLive2DConfig } from '@/context/live2d-config-context';
+
+export const LOCAL_ASSET_SCHEME = 'local-asset:';
+
+/**
+ * Model or background served from disk by the Electron main process
+ * @interface LocalAsset
+ */
+export interface LocalAsset {
+  kind: 'model' | 'background';
+  name: string;
+  url: string;
+}
+
+/**
+ * Local model and the ModelInfo edited for it
+ * @interface LocalModelEntry
+ */
+export interface LocalModelEntry extends LocalAsset {
+  modelInfo?: ModelInfo;
+}
+
+/**
+ * Local asset context state interface
+ * @interface LocalAssetState
+ */
+interface LocalAssetState {
+  /** Whether local files can be opened, i.e. running in Electron */
+  isAvailable: boolean;
+
+  /** Models in the local library */
+  localModels: LocalModelEntry[];
+
+  /** Backgrounds in the local library */
+  localBackgrounds: LocalAsset[];
+
+  /** Local model shown instead of the server's, if any */
+  activeLocalModel: LocalModelEntry | null;
+
+  /** Show a library model, or the server's model again when null */
+  setActiveLocalModel: (url: string | null) => void;
+
+  /** Model the server asked for; shown unless a local model is active */
+  setServerModelInfo: (info: ModelInfo) => void;
+
+  /** Pick a model file or folder and add it to the library */
+  openLocalModel: (folder: boolean) => Promise<LocalAsset | null>;
+
+  /** Pick an image and add it to the local backgrounds */
+  openLocalBackground: () => Promise<LocalAsset | null>;
+
+  /** Add a dropped file or folder, whichever kind of asset it is */
+  addDroppedFile: (file: File) => Promise<LocalAsset | null>;
+
+  /** Remove an asset from the library */
+  removeLocalAsset: (url: string) => void;
+}
+
+const LocalAssetContext = createContext<LocalAssetState | null>(null);
+
+export const isLocalAssetUrl = (url: string): boolean => url.startsWith(LOCAL_ASSET_SCHEME);
+
+const hostOf = (url: string): string => new URL(url).host;
+
+// Same starting scale as a new model in the Live2D settings
+const DEFAULT_LOCAL_MODEL_SCALE = 0.000625;
+
+/**
+ * Model settings for a local model opened for the first time
+ */
+const createLocalModelInfo = (asset: LocalAsset): ModelInfo => ({
+  name: asset.name,
+  url: asset.url,
+  kScale: DEFAULT_LOCAL_MODEL_SCALE,
+  initialXshift: 0,
+  initialYshift: 0,
+  emotionMap: {},
+});
+
+/**
+ * Local Asset Provider Component
+ * Keeps the library of local models and backgrounds; the active local model
+ * overrides the model the server sets
+ *
+ * @param {Object} props - Provider props
+ * @param {React.ReactNode} props.children - Child components
+ */
+export function LocalAssetProvider({ children }: { children: React.ReactNode }) {
+  const { modelInfo, setModelInfo } = useLive2DConfig();
+  const { api } = window;
+  const isAvailable = api !== undefined;
+
+  const [localModels, setLocalModels] = useLocalStorage<LocalModelEntry[]>('localModels', []);
+  const [localBackgrounds, setLocalBackgrounds] = useLocalStorage<LocalAsset[]>('localBackgrounds', []);
+  const [activeUrl, setActiveUrl] = useLocalStorage<string | null>('activeLocalModel', null);
+  const serverModelInfoRef = useRef<ModelInfo | null>(null);
+
+  const activeLocalModel = useMemo(
+    () => (isAvailable ? localModels.find((model) => model.url === activeUrl) ?? null : null),
+    [isAvailable, localModels, activeUrl],
+  );
+
+  // Show the active model; setModelInfo needs a character and changes once
+  // there is one, so this runs again then
+  useEffect(() => {
+    if (!activeLocalModel) {
+      if (serverModelInfoRef.current && modelInfo && isLocalAssetUrl(modelInfo.url)) {
+        setModelInfo(serverModelInfoRef.current);
+      }
+      return;
+    }
+    if (modelInfo?.url === activeLocalModel.url) return;
+    setModelInfo(activeLocalModel.modelInfo ?? createLocalModelInfo(activeLocalModel));
+  }, [activeLocalModel, modelInfo, setModelInfo]);
+
+  // Remember edits made in the Live2D settings with the local model
+  useEffect(() => {
+    if (!activeLocalModel || modelInfo?.url !== activeLocalModel.url) return;
+    if (JSON.stringify(modelInfo) === JSON.stringify(activeLocalModel.modelInfo)) return;
+    setLocalModels((prev) => prev.map((model) => (
+      model.url === activeLocalModel.url ? { ...model, modelInfo } : model
+    )));
+  }, [activeLocalModel, modelInfo, setLocalModels]);
+
+  const addAsset = useCallback((asset: LocalAsset | null) => {
+    if (!asset) return null;
+    if (asset.kind === 'model') {
+      setLocalModels((prev) => (prev.some((model) => model.url === asset.url)
+        ? prev
+        : [...prev, asset]));
+      setActiveUrl(asset.url);
+    } else {
+      setLocalBackgrounds((prev) => (prev.some((background) => background.url === asset.url)
+        ? prev
+        : [...prev, asset]));
+    }
+    return asset;
+  }, [setLocalModels, setLocalBackgrounds, setActiveUrl]);
+
+  const openLocalModel = useCallback(async (folder: boolean) => {
+    if (!api) return null;
+    return addAsset(await api.openLocalModel(folder));
+  }, [api, addAsset]);
+
+  const openLocalBackground = useCallback(async () => {
+    if (!api) return null;
+    return addAsset(await api.openLocalBackground());
+  }, [api, addAsset]);
+
+  const addDroppedFile = useCallback(async (file: File) => {
+    if (!api) return null;
+    const path = api.getPathForFile(file);
+    if (!path) return null;
+    return addAsset(await api.addLocalAsset(path));
+  }, [api, addAsset]);
+
+  const removeLocalAsset = useCallback((url: string) => {
+    const remaining = [...localModels, ...localBackgrounds].filter((asset) => asset.url !== url);
+    setLocalModels((prev) => prev.filter((model) => model.url !== url));
+    setLocalBackgrounds((prev) => prev.filter((background) => background.url !== url));
+    if (activeUrl === url) setActiveUrl(null);
+    // Assets from the same folder share it
+    if (!remaining.some((asset) => hostOf(asset.url) === hostOf(url))) {
+      api?.removeLocalAsset(url);
+    }
+  }, [api, localModels, localBackgrounds, activeUrl, setLocalModels, setLocalBackgrounds, setActiveUrl]);
+
+  const setActiveLocalModel = useCallback((url: string | null) => {
+    setActiveUrl(url);
+  }, [setActiveUrl]);
+
+  const setServerModelInfo = useCallback((info: ModelInfo) => {
+    serverModelInfoRef.current = info;
+    if (activeLocalModel) {
+      console.log('Local model overrides the server model:', activeLocalModel.url);
+      return;
+    }
+    setModelInfo(info);
+  }, [activeLocalModel, setModelInfo]);
+
+  const contextValue = useMemo(() => ({
+    isAvailable,
+    localModels,
+    localBackgrounds,
+    activeLocalModel,
+    setActiveLocalModel,
+    setServerModelInfo,
+    openLocalModel,
+    openLocalBackground,
+    addDroppedFile,
+    removeLocalAsset,
+  }), [
+    isAvailable, localModels, localBackgrounds, activeLocalModel, setActiveLocalModel,
+    setServerModelInfo,
+    openLocalModel, openLocalBackground, addDroppedFile, removeLocalAsset,
+  ]);
+
+  return (
+    <LocalAssetContext.Provider value={contextValue}>
+      {children}
+    </LocalAssetContext.Provider>
+  );
+}
+
+/**
+ * Custom hook to use the local asset context
+ * @throws {Error} If used outside of LocalAssetProvider
+ */
+export function useLocalAssets() {
+  const context = useContext(LocalAssetContext);
+
+  if (!context) {
+    throw new Error('useLocalAssets must be used within a LocalAssetProvider');
+  }
+
+  return context;
+}
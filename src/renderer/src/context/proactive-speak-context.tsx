@@ -4,11 +4,27 @@ import {
 import { useLocalStorage } from '@/hooks/utils/use-local-storage';
 import { useTriggerSpeak } from '@/hooks/utils/use-trigger-speak';
 import { useAiState, AiStateEnum } from '@/context/ai-state-context';
+import { SpeakReason } from '@/services/websocket-protocol';
 
-interface ProactiveSpeakSettings {
+export interface ProactiveSpeakSettings {
   allowButtonTrigger: boolean;
   allowProactiveSpeak: boolean
   idleSecondsToSpeak: number
+  // Up to this many seconds are added at random to each wait
+  idleRandomSeconds: number
+  // Proactive prompts allowed within any hour, 0 for no limit
+  maxPromptsPerHour: number
+  quietHoursEnabled: boolean
+  // Local hours from 0 to 23; the range may wrap past midnight
+  quietHoursStart: number
+  quietHoursEnd: number
+  speakOnSystemIdle: boolean
+  speakOnSystemReturn: boolean
+  // Minutes without keyboard or mouse input before the user counts as away
+  systemIdleMinutes: number
+  speakOnTimeOfDay: boolean
+  speakOnAppFocus: boolean
+  allowTouchEvents: boolean
 }
 
 interface ProactiveSpeakContextType {
@@ -19,22 +35,112 @@ interface ProactiveSpeakContextType {
 const defaultSettings: ProactiveSpeakSettings = {
   allowProactiveSpeak: false,
   idleSecondsToSpeak: 5,
+  idleRandomSeconds: 0,
+  maxPromptsPerHour: 0,
+  quietHoursEnabled: false,
+  quietHoursStart: 23,
+  quietHoursEnd: 7,
+  speakOnSystemIdle: false,
+  speakOnSystemReturn: false,
+  systemIdleMinutes: 5,
+  speakOnTimeOfDay: false,
+  speakOnAppFocus: false,
   allowButtonTrigger: false,
+  allowTouchEvents: false,
+};
+
+// A blocked prompt is retried after this long, so a 0 s wait cannot spin
+const RETRY_DELAY_MS = 60 * 1000;
+
+// How often the time of day is checked for a greeting
+const GREETING_CHECK_MS = 60 * 1000;
+
+// Focus changes count once the window kept its previous state this long
+const FOCUS_CHANGE_MIN_MS = 60 * 1000;
+
+type DayPeriod = 'morning' | 'afternoon' | 'evening';
+
+/**
+ * Part of the day greeted at the given time, none at night
+ */
+const getDayPeriod = (date: Date): DayPeriod | null => {
+  const hour = date.getHours();
+  if (hour >= 5 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 18) return 'afternoon';
+  if (hour >= 18 && hour < 23) return 'evening';
+  return null;
+};
+
+const isQuietHour = (settings: ProactiveSpeakSettings, date: Date): boolean => {
+  if (!settings.quietHoursEnabled) return false;
+  const hour = date.getHours();
+  const { quietHoursStart: start, quietHoursEnd: end } = settings;
+  if (start === end) return false;
+  return start < end
+    ? hour >= start && hour < end
+    : hour >= start || hour < end;
 };
 
 export const ProactiveSpeakContext = createContext<ProactiveSpeakContextType | null>(null);
 
+/**
+ * Proactive Speak Provider Component
+ * Schedules the prompts that make the AI speak on its own: after a silence,
+ * when the user leaves or returns, at times of day and on window focus.
+ * All of them respect quiet hours and the hourly limit.
+ *
+ * @param {Object} props - Provider props
+ * @param {React.ReactNode} props.children - Child components
+ */
 export function ProactiveSpeakProvider({ children }: { children: ReactNode }) {
-  const [settings, setSettings] = useLocalStorage<ProactiveSpeakSettings>(
+  const [storedSettings, setSettings] = useLocalStorage<ProactiveSpeakSettings>(
     'proactiveSpeakSettings',
     defaultSettings,
   );
+  // Settings saved before a field existed lack it
+  const settings = useMemo(() => ({ ...defaultSettings, ...storedSettings }), [storedSettings]);
+  // Day and period of the last greeting, so a restart does not greet twice
+  const [lastGreeting, setLastGreeting] = useLocalStorage('lastProactiveGreeting', '');
 
   const { aiState } = useAiState();
   const { sendTriggerSignal } = useTriggerSpeak();
 
   const idleTimerRef = useRef<NodeJS.Timeout | null>(null);
   const idleStartTimeRef = useRef<number | null>(null);
+  const settingsRef = useRef(settings);
+  const aiStateRef = useRef(aiState);
+  // When recent proactive prompts were sent, for the hourly limit
+  const promptTimesRef = useRef<number[]>([]);
+  // The user is away from the computer
+  const awayRef = useRef(false);
+
+  useEffect(() => {
+    settingsRef.current = settings;
+  }, [settings]);
+
+  useEffect(() => {
+    aiStateRef.current = aiState;
+  }, [aiState]);
+
+  /**
+   * Send a prompt unless the AI is busy, it is quiet hours, or the hourly limit is reached
+   * @returns Whether the prompt was sent
+   */
+  const trySpeak = useCallback((reason: SpeakReason, idleTime: number) => {
+    const { current } = settingsRef;
+    if (!current.allowProactiveSpeak || aiStateRef.current !== AiStateEnum.IDLE) return false;
+    const now = Date.now();
+    if (isQuietHour(current, new Date(now))) return false;
+    promptTimesRef.current = promptTimesRef.current.filter((time) => now - time < 60 * 60 * 1000);
+    if (current.maxPromptsPerHour > 0 && promptTimesRef.current.length >= current.maxPromptsPerHour) {
+      return false;
+    }
+    // A dropped prompt does not count towards the limit
+    if (sendTriggerSignal(idleTime, reason) !== 'sent') return false;
+    promptTimesRef.current.push(now);
+    console.log('Proactive speak:', reason);
+    return true;
+  }, [sendTriggerSignal]);
 
   const clearIdleTimer = useCallback(() => {
     if (idleTimerRef.current) {
@@ -50,11 +156,20 @@ export function ProactiveSpeakProvider({ children }: { children: ReactNode }) {
     if (!settings.allowProactiveSpeak) return;
 
     idleStartTimeRef.current = Date.now();
-    idleTimerRef.current = setTimeout(() => {
-      const actualIdleTime = (Date.now() - idleStartTimeRef.current!) / 1000;
-      sendTriggerSignal(actualIdleTime);
-    }, settings.idleSecondsToSpeak * 1000);
-  }, [settings.allowProactiveSpeak, settings.idleSecondsToSpeak, sendTriggerSignal, clearIdleTimer]);
+    const schedule = (delay: number) => {
+      idleTimerRef.current = setTimeout(() => {
+        const actualIdleTime = (Date.now() - idleStartTimeRef.current!) / 1000;
+        // Nobody to talk to while the user is away
+        if (awayRef.current || !trySpeak('idle', actualIdleTime)) {
+          schedule(RETRY_DELAY_MS);
+        }
+      }, delay);
+    };
+    schedule((settings.idleSecondsToSpeak + Math.random() * settings.idleRandomSeconds) * 1000);
+  }, [
+    settings.allowProactiveSpeak, settings.idleSecondsToSpeak, settings.idleRandomSeconds,
+    trySpeak, clearIdleTimer,
+  ]);
 
   useEffect(() => {
     if (aiState === AiStateEnum.IDLE) {
@@ -68,6 +183,74 @@ export function ProactiveSpeakProvider({ children }: { children: ReactNode }) {
     clearIdleTimer();
   }, [clearIdleTimer]);
 
+  // Leaving and returning to the computer, reported by the main process
+  const watchSystemIdle = settings.allowProactiveSpeak
+    && (settings.speakOnSystemIdle || settings.speakOnSystemReturn);
+  useEffect(() => {
+    const { api } = window;
+    if (!watchSystemIdle || !api) return undefined;
+
+    const unsubscribe = api.onSystemIdleChanged(({ idle, idleSeconds }) => {
+      awayRef.current = idle;
+      const { current } = settingsRef;
+      if (idle && current.speakOnSystemIdle) {
+        trySpeak('system-idle', idleSeconds);
+      } else if (!idle && current.speakOnSystemReturn) {
+        trySpeak('system-return', idleSeconds);
+      }
+    });
+    api.setSystemIdleThreshold(Math.max(1, settings.systemIdleMinutes) * 60);
+
+    return () => {
+      unsubscribe();
+      api.setSystemIdleThreshold(0);
+      awayRef.current = false;
+    };
+  }, [watchSystemIdle, settings.systemIdleMinutes, trySpeak]);
+
+  // Greet once per part of the day, retrying while the AI is busy
+  const greet = settings.allowProactiveSpeak && settings.speakOnTimeOfDay;
+  useEffect(() => {
+    if (!greet) return undefined;
+
+    const check = () => {
+      const now = new Date();
+      const period = getDayPeriod(now);
+      const key = `${now.toDateString()} ${period}`;
+      if (!period || key === lastGreeting || awayRef.current) return;
+      if (trySpeak(`greeting-${period}`, -1)) setLastGreeting(key);
+    };
+
+    check();
+    const interval = setInterval(check, GREETING_CHECK_MS);
+    return () => clearInterval(interval);
+  }, [greet, lastGreeting, trySpeak, setLastGreeting]);
+
+  // Coming back to the window, or leaving it, after a while
+  const watchFocus = settings.allowProactiveSpeak && settings.speakOnAppFocus;
+  useEffect(() => {
+    if (!watchFocus) return undefined;
+    let changedAt = Date.now();
+
+    const handleFocus = () => {
+      const awayMs = Date.now() - changedAt;
+      changedAt = Date.now();
+      if (awayMs >= FOCUS_CHANGE_MIN_MS) trySpeak('app-focus', awayMs / 1000);
+    };
+    const handleBlur = () => {
+      const focusedMs = Date.now() - changedAt;
+      changedAt = Date.now();
+      if (focusedMs >= FOCUS_CHANGE_MIN_MS) trySpeak('app-blur', -1);
+    };
+
+    window.addEventListener('focus', handleFocus);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('focus', handleFocus);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [watchFocus, trySpeak]);
+
   const updateSettings = useCallback((newSettings: ProactiveSpeakSettings) => {
     setSettings(newSettings);
   }, [setSettings]);
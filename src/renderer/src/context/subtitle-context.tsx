@@ -1,6 +1,7 @@
 import {
   createContext, useState, useMemo, useContext, memo,
 } from 'react';
+import { useI18n } from './i18n-context';
 
 /**
  * Subtitle context state interface
@@ -20,14 +21,6 @@ interface SubtitleState {
   setShowSubtitle: (show: boolean) => void
 }
 
-/**
- * Default values and constants
- */
-const DEFAULT_SUBTITLE = {
-  text: "Hi, I'm some random AI VTuber. Who the hell are ya? "
-        + 'Ahh, you must be amazed by my awesomeness, right? right?',
-};
-
 /**
  * Create the subtitle context
  */
@@ -41,8 +34,10 @@ export const SubtitleContext = createContext<SubtitleState | null>(null);
  * @param {React.ReactNode} props.children - Child components
  */
 export const SubtitleProvider = memo(({ children }: { children: React.ReactNode }) => {
+  const { t } = useI18n();
+
   // State management
-  const [subtitleText, setSubtitleText] = useState<string>(DEFAULT_SUBTITLE.text);
+  const [subtitleText, setSubtitleText] = useState<string>(() => t('subtitle.greeting'));
   const [showSubtitle, setShowSubtitle] = useState<boolean>(true);
 
   // Memoized context value
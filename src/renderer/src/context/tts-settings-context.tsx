@@ -0,0 +1,184 @@
+import {
+  createContext, useContext, ReactNode, useCallback, useEffect, useMemo,
+} from 'react';
+import { useLocalStorage } from '@/hooks/utils/use-local-storage';
+import { useWebSocket } from '@/context/websocket-context';
+import { useConfig } from '@/context/character-config-context';
+import { audioPlaybackEngine, previewPlaybackEngine } from '@/utils/audio-playback-engine';
+import { TTSVoiceConfig } from '@/services/websocket-protocol';
+
+/**
+ * Local playback settings, shared by all characters
+ * @interface TTSPlaybackSettings
+ */
+export interface TTSPlaybackSettings {
+  // Between 0 and 1
+  volume: number;
+  playbackRate: number;
+}
+
+/**
+ * Where a character's speech is played, e.g. a virtual cable for OBS.
+ * Empty device ids mean the system default output and no mirror.
+ * @interface AudioOutputRoute
+ */
+export interface AudioOutputRoute {
+  outputDeviceId: string;
+  mirrorDeviceId: string;
+}
+
+/**
+ * TTS settings context state interface
+ * @interface TTSSettingsState
+ */
+interface TTSSettingsState {
+  playbackSettings: TTSPlaybackSettings;
+  updatePlaybackSettings: (settings: TTSPlaybackSettings) => void;
+  /** Voice parameters of the current character */
+  voiceConfig: TTSVoiceConfig;
+  updateVoiceConfig: (config: TTSVoiceConfig) => void;
+  /** Output devices of the current character */
+  outputRoute: AudioOutputRoute;
+  updateOutputRoute: (route: AudioOutputRoute) => void;
+}
+
+/**
+ * Default values and constants
+ */
+export const DEFAULT_PLAYBACK_SETTINGS: TTSPlaybackSettings = {
+  volume: 1,
+  playbackRate: 1,
+};
+
+export const DEFAULT_VOICE_CONFIG: TTSVoiceConfig = {
+  voice: '',
+  speed: 1,
+  pitch: 1,
+};
+
+export const DEFAULT_OUTPUT_ROUTE: AudioOutputRoute = {
+  outputDeviceId: '',
+  mirrorDeviceId: '',
+};
+
+/**
+ * Apply playback settings to the TTS playback engine
+ */
+export function applyPlaybackSettings(settings: TTSPlaybackSettings) {
+  [audioPlaybackEngine, previewPlaybackEngine].forEach((engine) => {
+    engine.setVolume(settings.volume);
+    engine.setPlaybackRate(settings.playbackRate);
+  });
+}
+
+/**
+ * Route character speech; previews stay on the default output
+ */
+export function applyOutputRoute(route: AudioOutputRoute) {
+  audioPlaybackEngine.setOutputDevice(route.outputDeviceId);
+  audioPlaybackEngine.setMirrorDevice(route.mirrorDeviceId);
+}
+
+const TTSSettingsContext = createContext<TTSSettingsState | null>(null);
+
+/**
+ * TTS Settings Provider Component
+ * Applies playback settings and each character's output devices locally,
+ * and sends each character's voice parameters to the server
+ *
+ * @param {Object} props - Provider props
+ * @param {React.ReactNode} props.children - Child components
+ */
+export function TTSSettingsProvider({ children }: { children: ReactNode }) {
+  const [playbackSettings, setPlaybackSettings] = useLocalStorage<TTSPlaybackSettings>(
+    'ttsPlaybackSettings',
+    DEFAULT_PLAYBACK_SETTINGS,
+  );
+  // Voice parameters keyed by character config uid
+  const [voiceConfigs, setVoiceConfigs] = useLocalStorage<Record<string, TTSVoiceConfig>>(
+    'ttsVoiceConfigs',
+    {},
+  );
+  // Output devices keyed by character config uid
+  const [outputRoutes, setOutputRoutes] = useLocalStorage<Record<string, AudioOutputRoute>>(
+    'ttsOutputRoutes',
+    {},
+  );
+  const { confUid } = useConfig();
+  const { sendMessage, wsState } = useWebSocket();
+
+  const voiceConfig = (confUid && voiceConfigs[confUid]) || DEFAULT_VOICE_CONFIG;
+  const hasCustomVoice = Boolean(confUid && voiceConfigs[confUid]);
+  const outputRoute = (confUid && outputRoutes[confUid]) || DEFAULT_OUTPUT_ROUTE;
+
+  useEffect(() => {
+    applyPlaybackSettings(playbackSettings);
+  }, [playbackSettings]);
+
+  useEffect(() => {
+    applyOutputRoute(outputRoute);
+  }, [outputRoute.outputDeviceId, outputRoute.mirrorDeviceId]);
+
+  // The server forgets the voice on reconnect and character switch; each
+  // character's stored config is a distinct object, so a switch re-sends it
+  useEffect(() => {
+    if (wsState !== 'OPEN' || !hasCustomVoice) return;
+    sendMessage({ type: 'tts-config', tts_config: voiceConfig });
+  }, [wsState, hasCustomVoice, voiceConfig, sendMessage]);
+
+  const updatePlaybackSettings = useCallback((settings: TTSPlaybackSettings) => {
+    setPlaybackSettings(settings);
+  }, [setPlaybackSettings]);
+
+  const updateVoiceConfig = useCallback((config: TTSVoiceConfig) => {
+    if (!confUid) {
+      console.warn('No character loaded, voice settings not saved');
+      return;
+    }
+    setVoiceConfigs({ ...voiceConfigs, [confUid]: config });
+  }, [confUid, voiceConfigs, setVoiceConfigs]);
+
+  const updateOutputRoute = useCallback((route: AudioOutputRoute) => {
+    if (!confUid) {
+      console.warn('No character loaded, output devices not saved');
+      return;
+    }
+    setOutputRoutes({ ...outputRoutes, [confUid]: route });
+  }, [confUid, outputRoutes, setOutputRoutes]);
+
+  const contextValue = useMemo(() => ({
+    playbackSettings,
+    updatePlaybackSettings,
+    voiceConfig,
+    updateVoiceConfig,
+    outputRoute,
+    updateOutputRoute,
+  }), [
+    playbackSettings,
+    updatePlaybackSettings,
+    voiceConfig,
+    updateVoiceConfig,
+    outputRoute,
+    updateOutputRoute,
+  ]);
+
+  return (
+    <TTSSettingsContext.Provider value={contextValue}>
+      {children}
+    </TTSSettingsContext.Provider>
+  );
+}
+
+/**
+ * Custom hook to use the TTS settings context
+ * @throws {Error} If used outside of TTSSettingsProvider
+ */
+export function useTTSSettings() {
+  const context = useContext(TTSSettingsContext);
+
+  if (!context) {
+    throw new Error('useTTSSettings must be used within a TTSSettingsProvider');
+  }
+
+  return context;
+}
@@ -4,10 +4,14 @@ import {
 import { MicVAD } from '@ricky0123/vad-web';
 import { useInterrupt } from '@/components/canvas/live2d';
 import { audioTaskQueue } from '@/utils/task-queue';
+import { audioPlaybackEngine } from '@/utils/audio-playback-engine';
+import { isSelfEcho } from '@/utils/echo-guard';
+import { Features, KeywordSpotter } from '@/utils/keyword-spotter';
 import { useSendAudio } from '@/hooks/utils/use-send-audio';
 import { SubtitleContext } from './subtitle-context';
 import { AiStateContext } from './ai-state-context';
 import { useLocalStorage } from '@/hooks/utils/use-local-storage';
+import { useI18n } from './i18n-context';
 
 /**
  * VAD settings configuration interface
@@ -22,8 +26,50 @@ export interface VADSettings {
 
   /** Number of frames for speech redemption */
   redemptionFrames: number;
+
+  /** Stricter speech threshold for interrupting the AI while it speaks (0-100) */
+  bargeInThreshold: number;
+}
+
+/**
+ * Microphone capture settings
+ * @interface MicSettings
+ */
+export interface MicSettings {
+  /** Input device id, empty for the system default */
+  deviceId: string;
+
+  echoCancellation: boolean;
+
+  noiseSuppression: boolean;
+
+  autoGainControl: boolean;
+}
+
+/**
+ * Wake-word activation settings
+ * @interface WakeWordSettings
+ */
+export interface WakeWordSettings {
+  /** Name the character answers to */
+  phrase: string;
+
+  /** Seconds the mic keeps listening without the wake word after the last exchange */
+  followUpSeconds: number;
+
+  /** MFCC features of the user's recordings of the phrase */
+  templates: Features[];
+
+  /** Largest template distance still accepted as the phrase */
+  threshold: number;
 }
 
+/**
+ * How speech is captured: detected by the VAD, while a hotkey is held,
+ * or detected by the VAD once the wake word was heard
+ */
+export type InputMode = 'vad' | 'push-to-talk' | 'wake-word';
+
 /**
  * VAD context state interface
  * @interface VADState
@@ -64,6 +110,39 @@ interface VADState {
 
   /** Set auto start microphone state */
   setAutoStartMicOn: (value: boolean) => void;
+
+  /** Ignore the AI's own voice picked up by the mic while it speaks */
+  echoGuardOn: boolean;
+
+  /** Set echo guard state */
+  setEchoGuardOn: (value: boolean) => void;
+
+  /** Microphone device and preprocessing */
+  micSettings: MicSettings;
+
+  /** Update microphone settings and restart if active */
+  updateMicSettings: (newSettings: MicSettings) => void;
+
+  /** Speech capture mode */
+  inputMode: InputMode;
+
+  /** Set speech capture mode */
+  setInputMode: (mode: InputMode) => void;
+
+  /** Start recording an utterance regardless of the VAD */
+  startPushToTalk: () => Promise<void>;
+
+  /** Send the utterance recorded since startPushToTalk */
+  stopPushToTalk: () => void;
+
+  /** Start a push-to-talk recording, or send the one in progress */
+  togglePushToTalk: () => void;
+
+  /** Wake-word phrase, recordings and follow-up window */
+  wakeWordSettings: WakeWordSettings;
+
+  /** Update wake-word settings */
+  updateWakeWordSettings: (newSettings: WakeWordSettings) => void;
 }
 
 /**
@@ -73,14 +152,68 @@ const DEFAULT_VAD_SETTINGS: VADSettings = {
   positiveSpeechThreshold: 97,
   negativeSpeechThreshold: 15,
   redemptionFrames: 15,
+  bargeInThreshold: 99,
+};
+
+export const DEFAULT_WAKE_WORD_SETTINGS: WakeWordSettings = {
+  phrase: '',
+  followUpSeconds: 8,
+  templates: [],
+  threshold: 0,
+};
+
+export const DEFAULT_MIC_SETTINGS: MicSettings = {
+  deviceId: '',
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
 };
 
+// Device changes often come in bursts, e.g. a USB interface with several endpoints
+const DEVICE_CHANGE_DEBOUNCE_MS = 500;
+
 const DEFAULT_VAD_STATE = {
   micOn: false,
   voiceInterruptionOn: false,
   autoStartMicOn: false,
+  echoGuardOn: true,
+  inputMode: 'vad' as InputMode,
 };
 
+// Mic audio compared against the AI's voice, about 0.8 s of 96 ms frames
+const ECHO_WINDOW_FRAMES = 8;
+
+// Shorter push-to-talk recordings are accidental presses, in 16 kHz samples
+const MIN_PUSH_TO_TALK_SAMPLES = 16000 * 0.3;
+
+// Speech after the wake word shorter than this is not a request, in 16 kHz samples
+const MIN_WAKE_COMMAND_SAMPLES = 16000 * 0.5;
+
+/**
+ * Utterance recorded between two presses of the push-to-talk key
+ */
+interface PushToTalkRecording {
+  frames: Float32Array[];
+  // False until the microphone delivers frames
+  recording: boolean;
+  // Whether the mic was on before recording started
+  wasMicOn: boolean;
+}
+
+/**
+ * Audio constraints for a microphone stream with the given settings
+ */
+export function getMicConstraints(settings: MicSettings): MediaTrackConstraints {
+  return {
+    // Not exact, so an unplugged device falls back to the default one
+    ...(settings.deviceId && { deviceId: { ideal: settings.deviceId } }),
+    channelCount: 1,
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+  };
+}
+
 /**
  * Create the VAD context
  */
@@ -96,6 +229,10 @@ export const VADContext = createContext<VADState | null>(null);
 export function VADProvider({ children }: { children: React.ReactNode }) {
   // Refs for VAD instance and state
   const vadRef = useRef<MicVAD | null>(null);
+  // Set while a VAD is being created, so there is never more than one
+  const startingRef = useRef<Promise<void> | null>(null);
+  // Owned by the provider, MicVAD does not stop streams it was given
+  const streamRef = useRef<MediaStream | null>(null);
   const previousTriggeredProbabilityRef = useRef(0);
 
   // Persistent state management
@@ -105,46 +242,93 @@ export function VADProvider({ children }: { children: React.ReactNode }) {
     'voiceInterruptionOn',
     DEFAULT_VAD_STATE.voiceInterruptionOn,
   );
-  const [settings, setSettings] = useLocalStorage<VADSettings>(
+  const [storedSettings, setSettings] = useLocalStorage<VADSettings>(
     'vadSettings',
     DEFAULT_VAD_SETTINGS,
   );
+  // Settings saved before a field existed lack it
+  const settings = useMemo(() => ({ ...DEFAULT_VAD_SETTINGS, ...storedSettings }), [storedSettings]);
   const [autoStartMicOn, setAutoStartMicOnState] = useLocalStorage(
     'autoStartMicOn',
     DEFAULT_VAD_STATE.autoStartMicOn,
   );
   const autoStartMicRef = useRef(false);
+  const [echoGuardOn, setEchoGuardOnState] = useLocalStorage(
+    'echoGuardOn',
+    DEFAULT_VAD_STATE.echoGuardOn,
+  );
+  const echoGuardRef = useRef(echoGuardOn);
+  // Latest frames and their probabilities, for judging a speech start
+  const recentFramesRef = useRef<Float32Array[]>([]);
+  const recentProbabilitiesRef = useRef<number[]>([]);
+  // Speech start held back as possible echo, accepted if it turns out to be the user
+  const heldSpeechRef = useRef(false);
+  const [micSettings, setMicSettings] = useLocalStorage<MicSettings>(
+    'micSettings',
+    DEFAULT_MIC_SETTINGS,
+  );
+  const [inputMode, setInputModeState] = useLocalStorage<InputMode>(
+    'inputMode',
+    DEFAULT_VAD_STATE.inputMode,
+  );
+  const inputModeRef = useRef(inputMode);
+  const pushToTalkRef = useRef<PushToTalkRecording | null>(null);
+  const [storedWakeWordSettings, setWakeWordSettings] = useLocalStorage<WakeWordSettings>(
+    'wakeWordSettings',
+    DEFAULT_WAKE_WORD_SETTINGS,
+  );
+  const wakeWordSettings = useMemo(
+    () => ({ ...DEFAULT_WAKE_WORD_SETTINGS, ...storedWakeWordSettings }),
+    [storedWakeWordSettings],
+  );
+  const wakeWordSettingsRef = useRef(wakeWordSettings);
+  const spotterRef = useRef(new KeywordSpotter(wakeWordSettings.templates, wakeWordSettings.threshold));
+  // Whether speech is forwarded without the wake word, until the sleep timer fires
+  const awakeRef = useRef(false);
+  const sleepTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Speech start heard while asleep, checked for the wake word once it ends
+  const wakeCandidateRef = useRef(false);
 
   // Force update mechanism for ref updates
   const [, forceUpdate] = useReducer((x) => x + 1, 0);
 
   // External hooks and contexts
   const { interrupt } = useInterrupt();
-  const { sendAudioPartition } = useSendAudio();
+  const audioUpload = useSendAudio();
   const { setSubtitleText } = useContext(SubtitleContext)!;
   const { aiState, setAiState } = useContext(AiStateContext)!;
+  const { t } = useI18n();
 
   // Refs for callback stability
   const interruptRef = useRef(interrupt);
-  const sendAudioPartitionRef = useRef(sendAudioPartition);
+  const audioUploadRef = useRef(audioUpload);
   const aiStateRef = useRef<string>(aiState);
   const setSubtitleTextRef = useRef(setSubtitleText);
   const setAiStateRef = useRef(setAiState);
+  const tRef = useRef(t);
 
   const isProcessingRef = useRef(false);
+  const micOnRef = useRef(micOn);
+  const settingsRef = useRef(settings);
+  const micSettingsRef = useRef(micSettings);
 
   // Update refs when dependencies change
   useEffect(() => {
     aiStateRef.current = aiState;
   }, [aiState]);
 
+  useEffect(() => {
+    wakeWordSettingsRef.current = wakeWordSettings;
+    spotterRef.current = new KeywordSpotter(wakeWordSettings.templates, wakeWordSettings.threshold);
+  }, [wakeWordSettings]);
+
   useEffect(() => {
     interruptRef.current = interrupt;
   }, [interrupt]);
 
   useEffect(() => {
-    sendAudioPartitionRef.current = sendAudioPartition;
-  }, [sendAudioPartition]);
+    audioUploadRef.current = audioUpload;
+  }, [audioUpload]);
 
   useEffect(() => {
     setSubtitleTextRef.current = setSubtitleText;
@@ -154,6 +338,14 @@ export function VADProvider({ children }: { children: React.ReactNode }) {
     setAiStateRef.current = setAiState;
   }, [setAiState]);
 
+  useEffect(() => {
+    tRef.current = t;
+  }, [t]);
+
+  useEffect(() => {
+    micOnRef.current = micOn;
+  }, [micOn]);
+
   useEffect(() => {
     voiceInterruptionRef.current = voiceInterruptionOn;
   }, []);
@@ -170,59 +362,178 @@ export function VADProvider({ children }: { children: React.ReactNode }) {
     forceUpdate();
   }, []);
 
+  const clearSleepTimer = useCallback(() => {
+    if (sleepTimerRef.current) {
+      clearTimeout(sleepTimerRef.current);
+      sleepTimerRef.current = null;
+    }
+  }, []);
+
   /**
-   * Handle speech start event
+   * Keep listening without the wake word for the follow-up window
    */
-  const handleSpeechStart = useCallback(() => {
+  const restartSleepTimer = useCallback(() => {
+    clearSleepTimer();
+    sleepTimerRef.current = setTimeout(() => {
+      sleepTimerRef.current = null;
+      awakeRef.current = false;
+      console.log('Wake word needed again');
+    }, wakeWordSettingsRef.current.followUpSeconds * 1000);
+  }, []);
+
+  const fallAsleep = useCallback(() => {
+    clearSleepTimer();
+    awakeRef.current = false;
+    wakeCandidateRef.current = false;
+  }, []);
+
+  // The window runs from the end of each reply, not while the AI answers
+  useEffect(() => {
+    if (!awakeRef.current) return;
+    if (aiState === 'idle') {
+      restartSleepTimer();
+    } else {
+      clearSleepTimer();
+    }
+  }, [aiState]);
+
+  /**
+   * Start sending the utterance, interrupting the AI if it is speaking
+   */
+  const beginUtterance = useCallback(() => {
     console.log('Speech started');
     if (aiStateRef.current === 'thinking-speaking') {
       interruptRef.current();
     }
-    isProcessingRef.current = true;  
+    isProcessingRef.current = true;
+    audioUploadRef.current.startUtterance();
     setAiStateRef.current('listening');
   }, []);
 
+  /**
+   * Whether speech heard now may interrupt the AI. While it speaks, the
+   * speech must clear the barge-in threshold and not be its own echo.
+   * @param probability - Speech probability to hold to the barge-in threshold
+   */
+  const isGenuineSpeech = useCallback((probability: number) => {
+    if (!echoGuardRef.current) return true;
+    if (aiStateRef.current !== 'thinking-speaking' && !audioPlaybackEngine.isPlaying) return true;
+    if (probability < settingsRef.current.bargeInThreshold / 100) return false;
+    return !isSelfEcho(recentFramesRef.current);
+  }, []);
+
+  /**
+   * Handle speech start event
+   */
+  const handleSpeechStart = useCallback(() => {
+    // Push-to-talk decides when speech starts and ends
+    if (inputModeRef.current === 'push-to-talk') return;
+    // Only the wake word is listened for, so nothing is sent or interrupted yet
+    if (inputModeRef.current === 'wake-word' && !awakeRef.current) {
+      wakeCandidateRef.current = true;
+      return;
+    }
+    if (!isGenuineSpeech(Math.max(...recentProbabilitiesRef.current))) {
+      console.log('Speech start held back as possible echo of the AI');
+      heldSpeechRef.current = true;
+      return;
+    }
+    beginUtterance();
+  }, []);
+
   /**
    * Handle frame processing event
    */
-  const handleFrameProcessed = useCallback((probs: { isSpeech: number }) => {
+  const handleFrameProcessed = useCallback((probs: { isSpeech: number }, frame: Float32Array) => {
+    audioUploadRef.current.pushFrame(frame);
+    recentFramesRef.current.push(frame);
+    recentProbabilitiesRef.current.push(probs.isSpeech);
+    if (recentFramesRef.current.length > ECHO_WINDOW_FRAMES) {
+      recentFramesRef.current.shift();
+      recentProbabilitiesRef.current.shift();
+    }
+    // The user may start talking over the echo that was held back
+    if (heldSpeechRef.current && isGenuineSpeech(probs.isSpeech)) {
+      heldSpeechRef.current = false;
+      beginUtterance();
+    }
+    if (pushToTalkRef.current?.recording) {
+      pushToTalkRef.current.frames.push(frame);
+      return;
+    }
     if (probs.isSpeech > previousTriggeredProbabilityRef.current) {
       setPreviousTriggeredProbability(probs.isSpeech);
     }
   }, []);
 
+  /**
+   * Look for the wake word in speech heard while asleep. Whatever follows it
+   * in the same utterance is sent as the request.
+   */
+  const handleWakeCandidate = useCallback((audio: Float32Array) => {
+    const match = spotterRef.current.detect(audio);
+    if (!match) return;
+    console.log('Wake word heard');
+    awakeRef.current = true;
+    restartSleepTimer();
+    if (aiStateRef.current === 'thinking-speaking') {
+      interruptRef.current();
+    }
+
+    const request = audio.subarray(match.end);
+    if (request.length < MIN_WAKE_COMMAND_SAMPLES) {
+      setSubtitleTextRef.current(tRef.current('subtitle.wakeWordHeard'));
+      return;
+    }
+    audioTaskQueue.clearQueue();
+    audioUploadRef.current.sendAudioPartition(request);
+  }, []);
+
   /**
    * Handle speech end event
    */
   const handleSpeechEnd = useCallback((audio: Float32Array) => {
+    heldSpeechRef.current = false;
+    if (wakeCandidateRef.current) {
+      wakeCandidateRef.current = false;
+      handleWakeCandidate(audio);
+      setPreviousTriggeredProbability(0);
+      return;
+    }
     if (!isProcessingRef.current) return; 
     console.log('Speech ended');
     audioTaskQueue.clearQueue();
+    isProcessingRef.current = false;
+    audioUploadRef.current.finishUtterance(audio);
 
-    if (!voiceInterruptionRef.current) {
+    if (inputModeRef.current === 'wake-word') {
+      // Hands-free: the mic stays on and the window restarts after the reply
+      restartSleepTimer();
+    } else if (!voiceInterruptionRef.current) {
       stopMic();
     } else {
       console.log('Voice interruption is on, keeping mic active');
     }
 
     setPreviousTriggeredProbability(0);
-    sendAudioPartitionRef.current(audio);
-    isProcessingRef.current = false;  
   }, []);
 
   /**
    * Handle VAD misfire event
    */
   const handleVADMisfire = useCallback(() => {
+    heldSpeechRef.current = false;
+    wakeCandidateRef.current = false;
     if (!isProcessingRef.current) return;  
     console.log('VAD misfire detected');
     setPreviousTriggeredProbability(0);
     isProcessingRef.current = false;  
+    audioUploadRef.current.cancelUtterance();
 
     if (aiStateRef.current === 'interrupted' || aiStateRef.current === 'listening') {
       setAiStateRef.current('idle');
     }
-    setSubtitleTextRef.current("The LLM can't hear you.");
+    setSubtitleTextRef.current(tRef.current('subtitle.cannotHear'));
   }, []);
 
   /**
@@ -230,6 +541,7 @@ export function VADProvider({ children }: { children: React.ReactNode }) {
    */
   const updateSettings = useCallback((newSettings: VADSettings) => {
     setSettings(newSettings);
+    settingsRef.current = newSettings;
     if (vadRef.current) {
       stopMic();
       setTimeout(() => {
@@ -239,32 +551,62 @@ export function VADProvider({ children }: { children: React.ReactNode }) {
   }, []);
 
   /**
-   * Initialize new VAD instance
+   * Initialize new VAD instance on the configured microphone
    */
   const initVAD = async () => {
-    const newVAD = await MicVAD.new({
-      preSpeechPadFrames: 20,
-      positiveSpeechThreshold: settings.positiveSpeechThreshold / 100,
-      negativeSpeechThreshold: settings.negativeSpeechThreshold / 100,
-      redemptionFrames: settings.redemptionFrames,
-      onSpeechStart: handleSpeechStart,
-      onFrameProcessed: handleFrameProcessed,
-      onSpeechEnd: handleSpeechEnd,
-      onVADMisfire: handleVADMisfire,
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: getMicConstraints(micSettingsRef.current),
     });
+    const { current: vadSettings } = settingsRef;
+    let newVAD: MicVAD;
+    try {
+      newVAD = await MicVAD.new({
+        stream,
+        preSpeechPadFrames: 20,
+        positiveSpeechThreshold: vadSettings.positiveSpeechThreshold / 100,
+        negativeSpeechThreshold: vadSettings.negativeSpeechThreshold / 100,
+        redemptionFrames: vadSettings.redemptionFrames,
+        onSpeechStart: handleSpeechStart,
+        onFrameProcessed: handleFrameProcessed,
+        onSpeechEnd: handleSpeechEnd,
+        onVADMisfire: handleVADMisfire,
+      });
+    } catch (error) {
+      stream.getTracks().forEach((track) => track.stop());
+      throw error;
+    }
 
+    streamRef.current = stream;
     vadRef.current = newVAD;
     newVAD.start();
   };
 
+  /**
+   * Release the VAD and its microphone stream
+   */
+  const destroyVAD = () => {
+    vadRef.current?.destroy();
+    vadRef.current = null;
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+  };
+
   /**
    * Start microphone and VAD processing
    */
   const startMic = useCallback(async () => {
     try {
-      if (!vadRef.current) {
+      if (startingRef.current) {
+        await startingRef.current;
+      } else if (!vadRef.current) {
         console.log('Initializing VAD');
-        await initVAD();
+        const starting = initVAD();
+        startingRef.current = starting;
+        try {
+          await starting;
+        } finally {
+          if (startingRef.current === starting) startingRef.current = null;
+        }
       } else {
         console.log('Starting VAD');
         vadRef.current.start();
@@ -280,6 +622,15 @@ export function VADProvider({ children }: { children: React.ReactNode }) {
    */
   const stopMic = useCallback(() => {
     console.log('Stopping VAD');
+    // Pausing mid-speech discards the utterance without a VAD event
+    if (isProcessingRef.current) {
+      isProcessingRef.current = false;
+      audioUploadRef.current.cancelUtterance();
+    }
+    heldSpeechRef.current = false;
+    recentFramesRef.current = [];
+    recentProbabilitiesRef.current = [];
+    fallAsleep();
     if (vadRef.current) {
       vadRef.current.pause();
       console.log('VAD paused successfully');
@@ -290,6 +641,92 @@ export function VADProvider({ children }: { children: React.ReactNode }) {
     setMicOn(false);
   }, []);
 
+  /**
+   * Start recording regardless of the VAD, opening the mic if needed
+   */
+  const startPushToTalk = useCallback(async () => {
+    if (pushToTalkRef.current) return;
+    const recording: PushToTalkRecording = {
+      frames: [],
+      recording: false,
+      wasMicOn: micOnRef.current && vadRef.current !== null,
+    };
+    pushToTalkRef.current = recording;
+
+    if (aiStateRef.current === 'thinking-speaking') {
+      interruptRef.current();
+    }
+    if (!recording.wasMicOn) {
+      await startMic();
+    }
+    // Stopped while the microphone was starting
+    if (pushToTalkRef.current !== recording) return;
+
+    // Padding from before recording started is not part of the utterance
+    audioUploadRef.current.cancelUtterance();
+    audioUploadRef.current.startUtterance();
+    recording.recording = true;
+    setAiStateRef.current('listening');
+  }, []);
+
+  /**
+   * Send what was recorded since startPushToTalk
+   */
+  const stopPushToTalk = useCallback(() => {
+    const recording = pushToTalkRef.current;
+    if (!recording) return;
+    pushToTalkRef.current = null;
+
+    const length = recording.frames.reduce((sum, frame) => sum + frame.length, 0);
+    if (!recording.recording || length < MIN_PUSH_TO_TALK_SAMPLES) {
+      audioUploadRef.current.cancelUtterance();
+      if (aiStateRef.current === 'listening') {
+        setAiStateRef.current('idle');
+      }
+    } else {
+      const audio = new Float32Array(length);
+      recording.frames.reduce((offset, frame) => {
+        audio.set(frame, offset);
+        return offset + frame.length;
+      }, 0);
+      console.log('Push-to-talk utterance ended');
+      audioTaskQueue.clearQueue();
+      audioUploadRef.current.finishUtterance(audio);
+    }
+
+    if (!recording.wasMicOn) {
+      stopMic();
+    }
+  }, []);
+
+  const togglePushToTalk = useCallback(() => {
+    if (pushToTalkRef.current) {
+      stopPushToTalk();
+    } else if (inputModeRef.current === 'push-to-talk') {
+      startPushToTalk();
+    }
+  }, []);
+
+  const setInputMode = useCallback((mode: InputMode) => {
+    inputModeRef.current = mode;
+    setInputModeState(mode);
+    fallAsleep();
+    // A push-to-talk recording would wait for a press that no longer comes
+    if (mode !== 'push-to-talk') {
+      stopPushToTalk();
+    }
+    // A VAD utterance in progress would never end
+    if (mode === 'push-to-talk' && isProcessingRef.current) {
+      isProcessingRef.current = false;
+      audioUploadRef.current.cancelUtterance();
+      setPreviousTriggeredProbability(0);
+    }
+  }, []);
+
+  const updateWakeWordSettings = useCallback((newSettings: WakeWordSettings) => {
+    setWakeWordSettings(newSettings);
+  }, [setWakeWordSettings]);
+
   /**
    * Set voice interruption state
    */
@@ -299,12 +736,71 @@ export function VADProvider({ children }: { children: React.ReactNode }) {
     forceUpdate();
   }, []);
 
+  const setEchoGuardOn = useCallback((value: boolean) => {
+    echoGuardRef.current = value;
+    setEchoGuardOnState(value);
+    forceUpdate();
+  }, []);
+
   const setAutoStartMicOn = useCallback((value: boolean) => {
     autoStartMicRef.current = value;
     setAutoStartMicOnState(value);
     forceUpdate();
   }, []);
 
+  /**
+   * Reopen the microphone, e.g. after a device change.
+   * A mic that was on comes back on; one that was off stays off.
+   */
+  const restartMic = useCallback(async () => {
+    // Let a start in progress finish first, or its VAD would outlive the restart
+    await startingRef.current?.catch(() => {});
+    const wasOn = micOnRef.current;
+    if (isProcessingRef.current) {
+      isProcessingRef.current = false;
+      audioUploadRef.current.cancelUtterance();
+    }
+    destroyVAD();
+    setPreviousTriggeredProbability(0);
+    if (wasOn) {
+      console.log('Restarting VAD');
+      await startMic();
+    }
+  }, []);
+
+  const updateMicSettings = useCallback((newSettings: MicSettings) => {
+    setMicSettings(newSettings);
+    micSettingsRef.current = newSettings;
+    if (vadRef.current) {
+      restartMic();
+    }
+  }, []);
+
+  // Follow hot-plugged devices; the default one may have changed too
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const handleDeviceChange = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        if (!vadRef.current && !micOnRef.current) return;
+        console.log('Audio input devices changed');
+        restartMic();
+      }, DEVICE_CHANGE_DEBOUNCE_MS);
+    };
+
+    navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => {
+      if (timer) clearTimeout(timer);
+      navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+    };
+  }, []);
+
+  useEffect(() => () => {
+    destroyVAD();
+    clearSleepTimer();
+  }, []);
+
   // Memoized context value
   const contextValue = useMemo(
     () => ({
@@ -320,6 +816,17 @@ export function VADProvider({ children }: { children: React.ReactNode }) {
       updateSettings,
       autoStartMicOn: autoStartMicRef.current,
       setAutoStartMicOn,
+      echoGuardOn,
+      setEchoGuardOn,
+      micSettings,
+      updateMicSettings,
+      inputMode,
+      setInputMode,
+      startPushToTalk,
+      stopPushToTalk,
+      togglePushToTalk,
+      wakeWordSettings,
+      updateWakeWordSettings,
     }),
     [
       micOn,
@@ -327,6 +834,16 @@ export function VADProvider({ children }: { children: React.ReactNode }) {
       stopMic,
       settings,
       updateSettings,
+      echoGuardOn,
+      micSettings,
+      updateMicSettings,
+      inputMode,
+      setInputMode,
+      startPushToTalk,
+      stopPushToTalk,
+      togglePushToTalk,
+      wakeWordSettings,
+      updateWakeWordSettings,
     ],
   );
 
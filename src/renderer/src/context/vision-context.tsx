@@ -0,0 +1,115 @@
+import {
+  createContext, useContext, ReactNode, useCallback, useMemo,
+} from 'react';
+import { useLocalStorage } from '@/hooks/utils/use-local-storage';
+import { useCamera } from '@/context/camera-context';
+import { useScreenCaptureContext } from '@/context/screen-capture-context';
+import { captureJpegFrame } from '@/utils/frame-capture';
+import { VisionImage, VisionSource } from '@/services/websocket-protocol';
+
+/**
+ * Vision input settings
+ * @interface VisionSettings
+ */
+export interface VisionSettings {
+  enabled: boolean;
+  sources: VisionSource[];
+  // Longer edge of the snapshot, in pixels
+  maxSize: number;
+  // JPEG quality between 0 and 1
+  quality: number;
+}
+
+/**
+ * Vision context state interface
+ * @interface VisionContextState
+ */
+interface VisionContextState {
+  settings: VisionSettings;
+  updateSettings: (newSettings: VisionSettings) => void;
+  captureFrames: () => Promise<VisionImage[]>;
+}
+
+/**
+ * Default values and constants
+ */
+const DEFAULT_VISION_SETTINGS: VisionSettings = {
+  enabled: false,
+  sources: ['camera', 'screen'],
+  maxSize: 640,
+  quality: 0.7,
+};
+
+const VisionContext = createContext<VisionContextState | null>(null);
+
+/**
+ * Vision Provider Component
+ * Snapshots the active camera and screen streams for messages sent to the server
+ * @param {Object} props - Provider props
+ * @param {React.ReactNode} props.children - Child components
+ */
+export function VisionProvider({ children }: { children: ReactNode }) {
+  const [settings, setSettings] = useLocalStorage<VisionSettings>(
+    'visionSettings',
+    DEFAULT_VISION_SETTINGS,
+  );
+  const { stream: cameraStream, backgroundStream } = useCamera();
+  const { stream: screenStream } = useScreenCaptureContext();
+
+  /**
+   * Capture one frame from each enabled source that is currently streaming
+   * @returns Snapshots, empty when vision input is disabled
+   */
+  const captureFrames = useCallback(async (): Promise<VisionImage[]> => {
+    if (!settings.enabled) return [];
+
+    const streams: Record<VisionSource, MediaStream | null> = {
+      camera: cameraStream ?? backgroundStream,
+      screen: screenStream,
+    };
+
+    const images = await Promise.all(settings.sources.map(async (source) => {
+      const stream = streams[source];
+      if (!stream) return null;
+      try {
+        const data = await captureJpegFrame(stream, settings.maxSize, settings.quality);
+        return data ? { source, data, mime_type: 'image/jpeg' as const } : null;
+      } catch (error) {
+        console.error(`Failed to capture ${source} frame:`, error);
+        return null;
+      }
+    }));
+
+    return images.filter((image): image is VisionImage => image !== null);
+  }, [settings, cameraStream, backgroundStream, screenStream]);
+
+  const updateSettings = useCallback((newSettings: VisionSettings) => {
+    setSettings(newSettings);
+  }, [setSettings]);
+
+  const contextValue = useMemo(() => ({
+    settings,
+    updateSettings,
+    captureFrames,
+  }), [settings, updateSettings, captureFrames]);
+
+  return (
+    <VisionContext.Provider value={contextValue}>
+      {children}
+    </VisionContext.Provider>
+  );
+}
+
+/**
+ * Custom hook to use the vision context
+ * @throws {Error} If used outside of VisionProvider
+ */
+export function useVision() {
+  const context = useContext(VisionContext);
+
+  if (!context) {
+    throw new Error('useVision must be used within a VisionProvider');
+  }
+
+  return context;
+}
@@ -1,5 +1,6 @@
 import React, { useContext } from 'react';
-import { wsService } from '@/services/websocket-service';
+import { wsService, SendResult } from '@/services/websocket-service';
+import { ClientMessage } from '@/services/websocket-protocol';
 
 const DEFAULT_WS_URL = 'ws://127.0.0.1:12393/client-ws';
 const DEFAULT_BASE_URL = 'http://127.0.0.1:12393';
@@ -15,7 +16,7 @@ export interface HistoryInfo {
 }
 
 interface WebSocketContextProps {
-  sendMessage: (message: object) => void;
+  sendMessage: (message: ClientMessage) => SendResult;
   wsState: string;
   reconnect: () => void;
   wsUrl: string;
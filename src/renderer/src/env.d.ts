@@ -1,7 +1,28 @@
+interface PetPlacement {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
 interface Window {
   api?: {
     setIgnoreMouseEvents: (ignore: boolean) => void
     showContextMenu?: () => void
     onModeChanged: (callback: (mode: string) => void) => void
+    updateComponentHover: (componentId: string, isHovering: boolean) => void
+    placePetModel: (rect: PetPlacement) => Promise<PetPlacement | null>
+    setCursorTracking: (enabled: boolean) => void
+    onCursorPosition: (callback: (position: { x: number, y: number }) => void) => () => void
+    getShortcuts: () => Promise<import('@/utils/accelerator').ShortcutState>
+    setShortcuts: (bindings: import('@/utils/accelerator').ShortcutBindings) => Promise<import('@/utils/accelerator').ShortcutState>
+    onGlobalShortcut: (callback: (action: import('@/utils/accelerator').ShortcutAction) => void) => () => void
+    setSystemIdleThreshold: (seconds: number) => void
+    onSystemIdleChanged: (callback: (change: { idle: boolean, idleSeconds: number }) => void) => () => void
+    openLocalModel: (folder: boolean) => Promise<import('@/context/local-asset-context').LocalAsset | null>
+    openLocalBackground: () => Promise<import('@/context/local-asset-context').LocalAsset | null>
+    addLocalAsset: (path: string) => Promise<import('@/context/local-asset-context').LocalAsset | null>
+    removeLocalAsset: (url: string) => void
+    getPathForFile: (file: File) => string
   }
 }
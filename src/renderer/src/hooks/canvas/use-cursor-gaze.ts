@@ -0,0 +1,58 @@
+import { useEffect } from 'react';
+import * as PIXI from 'pixi.js';
+import { useLive2DModel } from '@/context/live2d-model-context';
+import { useLive2DConfig } from '@/context/live2d-config-context';
+import { audioPlaybackEngine } from '@/utils/audio-playback-engine';
+import { onBeforeModelUpdate } from '@/utils/model-events';
+
+export const DEFAULT_CURSOR_GAZE_STRENGTH = 0.8;
+
+/**
+ * Turn the model's eyes and head toward the desktop cursor in pet mode.
+ * The main process streams the cursor from anywhere on screen; while the
+ * character speaks it looks straight ahead instead.
+ */
+export const useCursorGaze = (isPet: boolean) => {
+  const { currentModel } = useLive2DModel();
+  const { modelInfo } = useLive2DConfig();
+  const enabled = isPet && (modelInfo?.cursorGaze ?? true);
+  const strength = Math.min(1, Math.max(0, modelInfo?.cursorGazeStrength
+    ?? DEFAULT_CURSOR_GAZE_STRENGTH));
+
+  useEffect(() => {
+    const { api } = window;
+    if (!enabled || !currentModel || !api) return undefined;
+    const { internalModel } = currentModel;
+    const { focusController } = internalModel;
+
+    let cursor: PIXI.Point | null = null;
+    const modelPoint = new PIXI.Point();
+    const unsubscribe = api.onCursorPosition(({ x, y }) => {
+      cursor = new PIXI.Point(x, y);
+    });
+    api.setCursorTracking(true);
+
+    // Same mapping as Live2DModel.focus, but scaled instead of always turning fully
+    const handleBeforeModelUpdate = () => {
+      if (!cursor || audioPlaybackEngine.isPlaying) {
+        focusController.focus(0, 0);
+        return;
+      }
+      currentModel.toModelPosition(cursor, modelPoint, true);
+      const tx = (modelPoint.x / internalModel.originalWidth) * 2 - 1;
+      const ty = (modelPoint.y / internalModel.originalHeight) * 2 - 1;
+      // Turn less while the cursor is over the model itself
+      const reach = Math.min(1, Math.hypot(tx, ty)) * strength;
+      const radian = Math.atan2(ty, tx);
+      focusController.focus(Math.cos(radian) * reach, -Math.sin(radian) * reach);
+    };
+
+    const removeListener = onBeforeModelUpdate(currentModel, handleBeforeModelUpdate);
+    return () => {
+      removeListener();
+      unsubscribe();
+      api.setCursorTracking(false);
+      focusController.focus(0, 0);
+    };
+  }, [enabled, strength, currentModel]);
+};
@@ -0,0 +1,70 @@
+import { useEffect } from 'react';
+import { Cubism4InternalModel } from 'pixi-live2d-display-lipsyncpatch';
+import { useLive2DModel } from '@/context/live2d-model-context';
+import { useLive2DConfig } from '@/context/live2d-config-context';
+import { audioPlaybackEngine } from '@/utils/audio-playback-engine';
+import { sampleLipSyncEnvelope } from '@/utils/lip-sync';
+import { onBeforeModelUpdate } from '@/utils/model-events';
+
+const DEFAULT_LIP_SYNC_IDS = ['ParamMouthOpenY'];
+
+export const DEFAULT_LIP_SYNC_GAIN = 1.2;
+export const DEFAULT_LIP_SYNC_SMOOTHING = 0.5;
+
+// Smoothing is specified per frame at this rate, and scaled to the real one
+const REFERENCE_FRAME_MS = 1000 / 60;
+
+// Weight of the lip-sync over the mouth of the running motion
+const LIP_SYNC_WEIGHT = 0.8;
+
+/**
+ * Open the model's mouth while the TTS playback engine speaks.
+ * Follows the server's volume envelope at the playback position, or the
+ * engine's measured loudness when the sentence has no envelope.
+ */
+export const useLipSync = () => {
+  const { currentModel } = useLive2DModel();
+  const { modelInfo } = useLive2DConfig();
+  // Edited as comma separated text, so entries may need trimming
+  const paramIds = (modelInfo?.lipSyncParamIds ?? [])
+    .map((id) => id.trim())
+    .filter(Boolean);
+  const gain = modelInfo?.lipSyncGain ?? DEFAULT_LIP_SYNC_GAIN;
+  const smoothing = Math.min(0.99, Math.max(0, modelInfo?.lipSyncSmoothing
+    ?? DEFAULT_LIP_SYNC_SMOOTHING));
+
+  useEffect(() => {
+    if (!currentModel) return undefined;
+    const { internalModel } = currentModel;
+    // Cubism 2 models name their parameters differently and cannot add to them
+    if (!(internalModel instanceof Cubism4InternalModel)) return undefined;
+    const { coreModel, motionManager } = internalModel;
+    const lipSyncIds = paramIds.length > 0
+      ? paramIds
+      : motionManager.lipSyncIds ?? DEFAULT_LIP_SYNC_IDS;
+
+    let mouth = 0;
+    let lastUpdate = performance.now();
+
+    const handleBeforeModelUpdate = () => {
+      const now = performance.now();
+      const elapsed = now - lastUpdate;
+      lastUpdate = now;
+
+      let target = 0;
+      if (audioPlaybackEngine.isPlaying) {
+        const envelope = sampleLipSyncEnvelope(audioPlaybackEngine.getPosition());
+        target = Math.min(1, (envelope ?? audioPlaybackEngine.getLevel()) * gain);
+      }
+
+      // Frame-rate independent exponential smoothing
+      const keep = smoothing ** (elapsed / REFERENCE_FRAME_MS);
+      mouth = target + (mouth - target) * keep;
+      if (mouth < 0.01 && target === 0) return;
+
+      lipSyncIds.forEach((id) => coreModel.addParameterValueById(id, mouth, LIP_SYNC_WEIGHT));
+    };
+
+    return onBeforeModelUpdate(currentModel, handleBeforeModelUpdate);
+  }, [currentModel, paramIds.join(','), gain, smoothing]);
+};
@@ -15,6 +15,7 @@ import {
 import { useLive2DModel as useModelContext } from "@/context/live2d-model-context";
 import { setModelSize, resetModelPosition } from "./use-live2d-resize";
 import { audioTaskQueue } from "@/utils/task-queue";
+import { useTouchEvent } from "@/hooks/utils/use-touch-event";
 
 interface UseLive2DModelProps {
   isPet: boolean;
@@ -30,8 +31,16 @@ export const useLive2DModel = ({
   const modelRef = useRef<Live2DModel | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
   const { setCurrentModel } = useModelContext();
-  const { setIsLoading } = useLive2DConfig();
+  const { setIsLoading, modelTransform, updateModelPosition } = useLive2DConfig();
   const loadingRef = useRef(false);
+  // Read when the model loads, without reloading it on every drag
+  const transformRef = useRef(modelTransform);
+  transformRef.current = modelTransform;
+  const updateModelPositionRef = useRef(updateModelPosition);
+  updateModelPositionRef.current = updateModelPosition;
+  const { sendTouchEvent } = useTouchEvent();
+  const sendTouchEventRef = useRef(sendTouchEvent);
+  sendTouchEventRef.current = sendTouchEvent;
 
   const cleanupModel = useCallback(() => {
     if (modelRef.current) {
@@ -127,8 +136,8 @@ export const useLive2DModel = ({
           height: 0,
         };
 
-      setModelSize(model, modelInfo);
-      resetModelPosition(model, width, height, modelInfo);
+      setModelSize(model, modelInfo, transformRef.current);
+      resetModelPosition(model, width, height, modelInfo, transformRef.current);
 
       model.interactive = true;
       model.cursor = "pointer";
@@ -137,19 +146,12 @@ export const useLive2DModel = ({
       let pointerX = 0;
       let pointerY = 0;
       let isTap = false;
+      // Hit areas under the pointer when a drag starts
+      let grabbedAreas: string[] = [];
       const dragThreshold = 5;
 
+      // Pet-mode click-through follows the rendered pixels, see usePixelHitTest
       if (isPet) {
-        model.on('pointerenter', () => {
-          (window.api as any)?.updateComponentHover('live2d-model', true);
-        });
-
-        model.on('pointerleave', () => {
-          if (!dragging) {
-            (window.api as any)?.updateComponentHover('live2d-model', false);
-          }
-        });
-
         model.on('rightdown', (e: any) => {
           e.data.originalEvent.preventDefault();
           (window.api as any).showContextMenu();
@@ -162,6 +164,7 @@ export const useLive2DModel = ({
           isTap = true;
           pointerX = e.global.x - model.x;
           pointerY = e.global.y - model.y;
+          grabbedAreas = model.hitTest(e.global.x, e.global.y);
         }
       });
 
@@ -232,11 +235,55 @@ export const useLive2DModel = ({
         );
       };
 
+      // Remember where the model was dragged to, as its centre relative to the canvas
+      const savePosition = (canvasSize?: { width: number; height: number }) => {
+        const { width: canvasWidth, height: canvasHeight } = canvasSize ?? (isPet
+          ? { width: window.innerWidth, height: window.innerHeight }
+          : containerRef.current?.getBoundingClientRect() || { width: 0, height: 0 });
+        if (canvasWidth === 0 || canvasHeight === 0) return;
+        updateModelPositionRef.current(
+          (model.x + model.width / 2) / canvasWidth,
+          (model.y + model.height / 2) / canvasHeight,
+        );
+      };
+
+      // In pet mode the main process snaps the model to the screen edges and
+      // moves the window to whichever display the model was dropped on
+      const finishDrag = async () => {
+        const { api } = window;
+        if (!isPet || !api) {
+          savePosition();
+          return;
+        }
+        try {
+          const placement = await api.placePetModel({
+            x: model.x,
+            y: model.y,
+            width: model.width,
+            height: model.height,
+          });
+          if (!placement) {
+            savePosition();
+            return;
+          }
+          model.position.set(placement.x, placement.y);
+          // The window may not have been resized yet, so use the size it will have
+          savePosition({ width: placement.width, height: placement.height });
+        } catch (error) {
+          console.error("Failed to place the model on screen:", error);
+          savePosition();
+        }
+      };
+
       model.on("pointerup", (e) => {
         if (dragging) {
           dragging = false;
-          if (isTap) {
+          if (!isTap) {
+            finishDrag();
+            sendTouchEventRef.current(grabbedAreas[0] ?? null, "drag");
+          } else {
             const hitAreas = model.hitTest(e.global.x, e.global.y);
+            sendTouchEventRef.current(hitAreas[0] ?? null, "tap");
 
             const foundMotion = hitAreas.find((area) => {
               const motionGroup = modelInfo?.tapMotions?.[area];
@@ -268,6 +315,10 @@ export const useLive2DModel = ({
       });
 
       model.on("pointerupoutside", () => {
+        if (dragging && !isTap) {
+          finishDrag();
+          sendTouchEventRef.current(grabbedAreas[0] ?? null, "drag");
+        }
         dragging = false;
         // (window.api as any)?.updateComponentHover('live2d-model', false)
       });
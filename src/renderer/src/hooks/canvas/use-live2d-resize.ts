@@ -1,20 +1,29 @@
 import { useEffect, useCallback, useRef } from 'react';
 import { Live2DModel } from 'pixi-live2d-display-lipsyncpatch';
 import * as PIXI from 'pixi.js';
-import { ModelInfo, useLive2DConfig } from '@/context/live2d-config-context';
+import { ModelInfo, ModelTransform, useLive2DConfig } from '@/context/live2d-config-context';
 
 // Speed of model scaling when using mouse wheel
 const SCALE_SPEED = 0.02;
 
-// Reset model to center of container with initial offset
+// Place model where the user left it, or at the center of container with initial offset
 export const resetModelPosition = (
   model: Live2DModel,
   width: number,
   height: number,
   modelInfo: ModelInfo | undefined,
+  transform?: ModelTransform | null,
 ) => {
   if (!model || !modelInfo) return;
 
+  if (transform?.x !== undefined && transform?.y !== undefined) {
+    model.position.set(
+      transform.x * width - model.width / 2,
+      transform.y * height - model.height / 2,
+    );
+    return;
+  }
+
   const initXshift = Number(modelInfo?.initialXshift || 0);
   const initYshift = Number(modelInfo?.initialYshift || 0);
 
@@ -40,16 +49,17 @@ const handleModelScale = (
   return smoothScale;
 };
 
-// Set model size based on device pixel ratio and kScale in modelInfo
+// Set model size based on device pixel ratio and the saved scale or kScale in modelInfo
 export const setModelSize = (
   model: Live2DModel,
   modelInfo: ModelInfo | undefined,
+  transform?: ModelTransform | null,
 ) => {
   if (!model || !modelInfo) return;
 
   const dpr = Number(window.devicePixelRatio || 1);
   const kScale = Number(modelInfo?.kScale || 0);
-  const newScale = kScale;
+  const newScale = transform?.scale ?? kScale;
 
   model.scale.set(newScale);
 
@@ -71,9 +81,21 @@ export const useLive2DResize = (
   modelInfo: ModelInfo | undefined,
   isPet: boolean,
 ) => {
-  const { updateModelScale } = useLive2DConfig();
+  const { modelTransform, updateModelScale } = useLive2DConfig();
   const scaleUpdateTimeout = useRef<NodeJS.Timeout | null>(null);
   const lastScaleRef = useRef<number | null>(null);
+  // The resize observer outlives renders, so it reads these through refs
+  const modelInfoRef = useRef(modelInfo);
+  const transformRef = useRef(modelTransform);
+  modelInfoRef.current = modelInfo;
+  transformRef.current = modelTransform;
+
+  const getContainerSize = useCallback(() => (isPet
+    ? { width: window.innerWidth, height: window.innerHeight }
+    : containerRef.current?.getBoundingClientRect() || {
+      width: 0,
+      height: 0,
+    }), [isPet, containerRef]);
 
   // Handle mouse wheel scaling
   const handleWheel = useCallback((e: WheelEvent) => {
@@ -108,22 +130,37 @@ export const useLive2DResize = (
     return undefined;
   }, [handleWheel, containerRef]);
 
+  // Apply the saved transform when it changes, e.g. when it is reset
+  useEffect(() => {
+    if (!modelRef.current) return;
+    const { width, height } = getContainerSize();
+    setModelSize(modelRef.current, modelInfo, modelTransform);
+    resetModelPosition(modelRef.current, width, height, modelInfo, modelTransform);
+  }, [
+    modelTransform?.scale,
+    modelTransform?.x,
+    modelTransform?.y,
+    modelInfo?.kScale,
+    modelInfo?.initialXshift,
+    modelInfo?.initialYshift,
+  ]);
+
   // Handle container resize
   useEffect(() => {
     const observer = new ResizeObserver(() => {
       if (modelRef.current && appRef.current) {
-        // Get container dimensions based on mode
-        const { width, height } = isPet
-          ? { width: window.innerWidth, height: window.innerHeight }
-          : containerRef.current?.getBoundingClientRect() || {
-            width: 0,
-            height: 0,
-          };
-
-        // Resize renderer and reset model position
+        const { width, height } = getContainerSize();
+
+        // Resize renderer and restore model position
         appRef.current.renderer.resize(width, height);
         appRef.current.renderer.clear();
-        resetModelPosition(modelRef.current, width, height, modelInfo);
+        resetModelPosition(
+          modelRef.current,
+          width,
+          height,
+          modelInfoRef.current,
+          transformRef.current,
+        );
       }
     });
 
@@ -134,7 +171,7 @@ export const useLive2DResize = (
     return () => {
       observer.disconnect();
     };
-  }, [modelRef, containerRef, isPet, appRef]);
+  }, [modelRef, containerRef, appRef, getContainerSize]);
 
   // Cleanup timeout on unmount
   useEffect(() => () => {
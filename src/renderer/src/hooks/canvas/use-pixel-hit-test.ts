@@ -0,0 +1,99 @@
+import { RefObject, useEffect } from 'react';
+import * as PIXI from 'pixi.js';
+
+// Alpha, out of 255, from which a pixel of the model captures the mouse
+const ALPHA_HIT_THRESHOLD = 25;
+// Grace period before the mouse passes through again, so edges do not flicker
+const HOVER_RELEASE_DELAY_MS = 120;
+
+/**
+ * Let the mouse through the pet-mode window except over opaque pixels of the
+ * model. The window forwards mouse moves while it ignores clicks, and the
+ * pixel under the cursor is read back right after the next frame is drawn.
+ */
+export const usePixelHitTest = (
+  appRef: RefObject<PIXI.Application | null>,
+  isPet: boolean,
+) => {
+  useEffect(() => {
+    const app = appRef.current;
+    const { api } = window;
+    if (!isPet || !app || !api) return undefined;
+
+    const renderer = app.renderer as PIXI.Renderer;
+    const pixel = new Uint8Array(4);
+    let point: { x: number; y: number } | null = null;
+    let pressed = false;
+    let hovering = false;
+    let releaseTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const setHovering = (hit: boolean) => {
+      if (hit) {
+        if (releaseTimer) {
+          clearTimeout(releaseTimer);
+          releaseTimer = null;
+        }
+        if (!hovering) {
+          hovering = true;
+          api.updateComponentHover('live2d-model', true);
+        }
+        return;
+      }
+      // Keep the mouse while dragging, even when the cursor runs ahead of the model
+      if (!hovering || pressed || releaseTimer) return;
+      releaseTimer = setTimeout(() => {
+        releaseTimer = null;
+        hovering = false;
+        api.updateComponentHover('live2d-model', false);
+      }, HOVER_RELEASE_DELAY_MS);
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      pressed = e.buttons !== 0;
+      point = { x: e.clientX, y: e.clientY };
+    };
+
+    const handlePointerUp = () => {
+      pressed = false;
+    };
+
+    const handleMouseLeave = () => {
+      point = null;
+      pressed = false;
+      setHovering(false);
+    };
+
+    // The drawing buffer is only readable before it is composited
+    const sample = () => {
+      if (!point) return;
+      const { x, y } = point;
+      point = null;
+
+      const { gl } = renderer;
+      const { resolution } = renderer;
+      const pixelX = Math.floor(x * resolution);
+      const pixelY = gl.drawingBufferHeight - 1 - Math.floor(y * resolution);
+      if (pixelX < 0 || pixelY < 0 || pixelX >= gl.drawingBufferWidth) {
+        setHovering(false);
+        return;
+      }
+      gl.readPixels(pixelX, pixelY, 1, 1, gl.RGBA, gl.UNSIGNED_BYTE, pixel);
+      setHovering(pixel[3] >= ALPHA_HIT_THRESHOLD);
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    document.addEventListener('mouseleave', handleMouseLeave);
+    // After every render callback, including the application's own
+    app.ticker.add(sample, undefined, PIXI.UPDATE_PRIORITY.UTILITY);
+
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      document.removeEventListener('mouseleave', handleMouseLeave);
+      app.ticker?.remove(sample);
+      if (releaseTimer) clearTimeout(releaseTimer);
+      if (hovering) api.updateComponentHover('live2d-model', false);
+    };
+  }, [appRef, isPet]);
+};
@@ -1,5 +1,6 @@
 import { useMemo, useCallback } from 'react';
 import { useWebSocket } from '@/context/websocket-context';
+import { useI18n } from '@/context/i18n-context';
 
 interface WSStatusInfo {
   color: string
@@ -10,6 +11,7 @@ interface WSStatusInfo {
 
 export const useWSStatus = () => {
   const { wsState, reconnect } = useWebSocket();
+  const { t } = useI18n();
 
   const handleClick = useCallback(() => {
     if (wsState !== 'OPEN' && wsState !== 'CONNECTING') {
@@ -22,26 +24,26 @@ export const useWSStatus = () => {
       case 'OPEN':
         return {
           color: 'green.500',
-          text: 'Connected',
+          text: t('connection.connected'),
           isDisconnected: false,
           handleClick,
         };
       case 'CONNECTING':
         return {
           color: 'yellow.500',
-          text: 'Connecting',
+          text: t('connection.connecting'),
           isDisconnected: false,
           handleClick,
         };
       default:
         return {
           color: 'red.500',
-          text: 'Click to Reconnect',
+          text: t('connection.reconnect'),
           isDisconnected: true,
           handleClick,
         };
     }
-  }, [wsState, handleClick]);
+  }, [wsState, handleClick, t]);
 
   return statusInfo;
 };
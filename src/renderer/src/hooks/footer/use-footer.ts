@@ -39,7 +39,7 @@ export const useFooter = () => {
         startMic();
       }
     } else if (settings.allowButtonTrigger) {
-      sendTriggerSignal(-1);
+      sendTriggerSignal(-1, 'raise-hand');
     }
   };
 
@@ -4,6 +4,7 @@ import { useAiState } from '@/context/ai-state-context';
 import { useInterrupt } from '@/components/canvas/live2d';
 import { useChatHistory } from '@/context/chat-history-context';
 import { useVAD } from '@/context/vad-context';
+import { useVision } from '@/context/vision-context';
 
 export function useTextInput() {
   const [inputText, setInputText] = useState('');
@@ -13,23 +14,31 @@ export function useTextInput() {
   const { interrupt } = useInterrupt();
   const { appendHumanMessage } = useChatHistory();
   const { stopMic, voiceInterruptionOn } = useVAD();
+  const { captureFrames } = useVision();
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setInputText(e.target.value);
   };
 
-  const handleSend = () => {
-    if (!inputText.trim() || !wsContext) return;
+  const handleSend = async () => {
+    const text = inputText.trim();
+    if (!text || !wsContext) return;
     if (aiState === 'thinking-speaking') {
       interrupt();
     }
-    appendHumanMessage(inputText.trim());
-    wsContext.sendMessage({
-      type: 'text-input',
-      text: inputText.trim(),
-    });
     if (!voiceInterruptionOn) stopMic();
     setInputText('');
+
+    const images = await captureFrames();
+    const { id, status } = wsContext.sendMessage({
+      type: 'text-input',
+      text,
+      ...(images.length > 0 && { images }),
+    });
+    appendHumanMessage(text, {
+      id,
+      status: status === 'pending' || status === 'failed' ? status : undefined,
+    });
   };
 
   const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useState } from 'react';
-import { useProactiveSpeak } from '@/context/proactive-speak-context';
+import { ProactiveSpeakSettings, useProactiveSpeak } from '@/context/proactive-speak-context';
 
 interface UseAgentSettingsProps {
   onSave?: (callback: () => void) => () => void
@@ -9,10 +9,8 @@ interface UseAgentSettingsProps {
 export function useAgentSettings({ onSave, onCancel }: UseAgentSettingsProps = {}) {
   const { settings: persistedSettings, updateSettings } = useProactiveSpeak();
 
-  const [tempSettings, setTempSettings] = useState({
-    allowProactiveSpeak: persistedSettings.allowProactiveSpeak,
-    idleSecondsToSpeak: persistedSettings.idleSecondsToSpeak,
-    allowButtonTrigger: persistedSettings.allowButtonTrigger,
+  const [tempSettings, setTempSettings] = useState<ProactiveSpeakSettings>({
+    ...persistedSettings,
   });
 
   const [originalSettings, setOriginalSettings] = useState({
@@ -47,6 +45,24 @@ export function useAgentSettings({ onSave, onCancel }: UseAgentSettingsProps = {
     }));
   }, []);
 
+  const handleAllowTouchEventsChange = useCallback((checked: boolean) => {
+    setTempSettings((prev) => ({
+      ...prev,
+      allowTouchEvents: checked,
+    }));
+  }, []);
+
+  // Scheduler fields that need no handling of their own
+  const handleSettingChange = useCallback(<K extends keyof ProactiveSpeakSettings>(
+    key: K,
+    value: ProactiveSpeakSettings[K],
+  ) => {
+    setTempSettings((prev) => ({
+      ...prev,
+      [key]: value,
+    }));
+  }, []);
+
   const handleSave = useCallback(() => {
     updateSettings(tempSettings);
     setOriginalSettings(tempSettings);
@@ -74,5 +90,7 @@ export function useAgentSettings({ onSave, onCancel }: UseAgentSettingsProps = {
     handleAllowProactiveSpeakChange,
     handleIdleSecondsChange,
     handleAllowButtonTriggerChange,
+    handleAllowTouchEventsChange,
+    handleSettingChange,
   };
 }
@@ -1,7 +1,23 @@
-import React, { useRef, useState, useEffect } from 'react';
-import { useVAD, VADSettings } from '@/context/vad-context';
+import React, {
+  useRef, useState, useEffect, useCallback,
+} from 'react';
+import {
+  useVAD, VADSettings, MicSettings, InputMode, WakeWordSettings, getMicConstraints,
+} from '@/context/vad-context';
+import { CalibratedSettings } from '@/utils/vad-calibration';
+import { useI18n } from '@/context/i18n-context';
+import { toaster } from '@/components/ui/toaster';
+
+export interface AudioInputDevice {
+  deviceId: string
+  label: string
+}
+
+// Virtual entries that duplicate real devices
+const ALIAS_DEVICE_IDS = ['default', 'communications'];
 
 export const useASRSettings = () => {
+  const { t } = useI18n();
   const {
     settings,
     updateSettings,
@@ -9,6 +25,14 @@ export const useASRSettings = () => {
     setVoiceInterruptionOn,
     autoStartMicOn,
     setAutoStartMicOn,
+    echoGuardOn,
+    setEchoGuardOn,
+    micSettings,
+    updateMicSettings,
+    inputMode,
+    setInputMode,
+    wakeWordSettings,
+    updateWakeWordSettings,
   } = useVAD();
 
   const localSettingsRef = useRef<VADSettings>(settings);
@@ -17,6 +41,15 @@ export const useASRSettings = () => {
   const originalAutoStartMicOnRef = useRef(autoStartMicOn);
   const [localVoiceInterruption, setLocalVoiceInterruption] = useState(voiceInterruptionOn);
   const [localAutoStartMic, setLocalAutoStartMic] = useState(autoStartMicOn);
+  const originalEchoGuardOnRef = useRef(echoGuardOn);
+  const [localEchoGuard, setLocalEchoGuard] = useState(echoGuardOn);
+  const [localMicSettings, setLocalMicSettings] = useState<MicSettings>(micSettings);
+  const originalMicSettingsRef = useRef(micSettings);
+  const [localInputMode, setLocalInputMode] = useState<InputMode>(inputMode);
+  const originalInputModeRef = useRef(inputMode);
+  const [localWakeWord, setLocalWakeWord] = useState<WakeWordSettings>(wakeWordSettings);
+  const originalWakeWordRef = useRef(wakeWordSettings);
+  const [inputDevices, setInputDevices] = useState<AudioInputDevice[]>([]);
   const [, forceUpdate] = React.useReducer((x) => x + 1, 0);
 
   useEffect(() => {
@@ -24,6 +57,37 @@ export const useASRSettings = () => {
     setLocalAutoStartMic(autoStartMicOn);
   }, [voiceInterruptionOn, autoStartMicOn]);
 
+  useEffect(() => {
+    const loadDevices = async () => {
+      try {
+        let devices = await navigator.mediaDevices.enumerateDevices();
+        // Labels stay hidden until the page has used the microphone once
+        if (devices.some((device) => device.kind === 'audioinput' && !device.label)) {
+          const stream = await navigator.mediaDevices.getUserMedia({
+            audio: getMicConstraints(originalMicSettingsRef.current),
+          });
+          stream.getTracks().forEach((track) => track.stop());
+          devices = await navigator.mediaDevices.enumerateDevices();
+        }
+        setInputDevices(devices
+          .filter((device) => device.kind === 'audioinput'
+            && !ALIAS_DEVICE_IDS.includes(device.deviceId))
+          .map((device, index) => ({
+            deviceId: device.deviceId,
+            label: device.label || t('settings.asr.unnamedInputDevice', { index: index + 1 }),
+          })));
+      } catch (error) {
+        console.error('Failed to list audio input devices:', error);
+      }
+    };
+
+    loadDevices();
+    navigator.mediaDevices.addEventListener('devicechange', loadDevices);
+    return () => {
+      navigator.mediaDevices.removeEventListener('devicechange', loadDevices);
+    };
+  }, [t]);
+
   const handleInputChange = (key: keyof VADSettings, value: number | string): void => {
     if (value === '' || value === '-') {
       localSettingsRef.current = { ...localSettingsRef.current, [key]: value };
@@ -37,6 +101,12 @@ export const useASRSettings = () => {
     forceUpdate();
   };
 
+  // Applied like typed values; saved with the rest of the tab
+  const handleApplyCalibration = (suggested: CalibratedSettings): void => {
+    localSettingsRef.current = { ...localSettingsRef.current, ...suggested };
+    forceUpdate();
+  };
+
   const handleVoiceInterruptionChange = (value: boolean) => {
     setLocalVoiceInterruption(value);
     setVoiceInterruptionOn(value);
@@ -47,11 +117,54 @@ export const useASRSettings = () => {
     setAutoStartMicOn(value);
   };
 
+  const handleEchoGuardChange = (value: boolean) => {
+    setLocalEchoGuard(value);
+    setEchoGuardOn(value);
+  };
+
+  const handleMicSettingChange = <K extends keyof MicSettings>(
+    key: K,
+    value: MicSettings[K],
+  ): void => {
+    setLocalMicSettings((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleWakeWordChange = useCallback((changes: Partial<WakeWordSettings>): void => {
+    setLocalWakeWord((prev) => ({ ...prev, ...changes }));
+  }, []);
+
   const handleSave = (): void => {
     updateSettings(localSettingsRef.current);
+    const micChanged = (Object.keys(localMicSettings) as (keyof MicSettings)[])
+      .some((key) => localMicSettings[key] !== originalMicSettingsRef.current[key]);
+    if (micChanged) {
+      updateMicSettings(localMicSettings);
+      originalMicSettingsRef.current = localMicSettings;
+    }
+    // The spotter cannot listen for a phrase nobody recorded
+    let savedInputMode = localInputMode;
+    if (localInputMode === 'wake-word' && localWakeWord.templates.length === 0) {
+      savedInputMode = 'vad';
+      setLocalInputMode(savedInputMode);
+      toaster.create({
+        title: t('toast.wakeWordNotEnrolled'),
+        description: t('toast.wakeWordNotEnrolledDescription'),
+        type: 'warning',
+        duration: 4000,
+      });
+    }
+    if (savedInputMode !== originalInputModeRef.current) {
+      setInputMode(savedInputMode);
+      originalInputModeRef.current = savedInputMode;
+    }
+    if (localWakeWord !== originalWakeWordRef.current) {
+      updateWakeWordSettings(localWakeWord);
+      originalWakeWordRef.current = localWakeWord;
+    }
     originalSettingsRef.current = localSettingsRef.current;
     originalVoiceInterruptionOnRef.current = localVoiceInterruption;
     originalAutoStartMicOnRef.current = localAutoStartMic;
+    originalEchoGuardOnRef.current = localEchoGuard;
   };
 
   const handleCancel = (): void => {
@@ -60,6 +173,11 @@ export const useASRSettings = () => {
     setLocalAutoStartMic(originalAutoStartMicOnRef.current);
     setVoiceInterruptionOn(originalVoiceInterruptionOnRef.current);
     setAutoStartMicOn(originalAutoStartMicOnRef.current);
+    setLocalEchoGuard(originalEchoGuardOnRef.current);
+    setEchoGuardOn(originalEchoGuardOnRef.current);
+    setLocalMicSettings(originalMicSettingsRef.current);
+    setLocalInputMode(originalInputModeRef.current);
+    setLocalWakeWord(originalWakeWordRef.current);
     forceUpdate();
   };
 
@@ -69,7 +187,17 @@ export const useASRSettings = () => {
     autoStartMicOn: localAutoStartMic,
     setVoiceInterruptionOn: handleVoiceInterruptionChange,
     setAutoStartMicOn: handleAutoStartMicChange,
+    echoGuardOn: localEchoGuard,
+    setEchoGuardOn: handleEchoGuardChange,
+    micSettings: localMicSettings,
+    inputMode: localInputMode,
+    setInputMode: setLocalInputMode,
+    wakeWordSettings: localWakeWord,
+    handleWakeWordChange,
+    inputDevices,
     handleInputChange,
+    handleApplyCalibration,
+    handleMicSettingChange,
     handleSave,
     handleCancel,
   };
@@ -6,6 +6,9 @@ import { useSubtitle } from '@/context/subtitle-context';
 import { useCamera } from '@/context/camera-context';
 import { useSwitchCharacter } from '@/hooks/utils/use-switch-character';
 import { useConfig } from '@/context/character-config-context';
+import { useI18n } from '@/context/i18n-context';
+import { isSupportedLanguage } from '@/i18n';
+import { isLocalAssetUrl } from '@/context/local-asset-context';
 
 interface GeneralSettings {
   language: string[]
@@ -47,17 +50,20 @@ export const useGeneralSettings = ({
   const { startBackgroundCamera, stopBackgroundCamera } = useCamera();
   const { configFiles, getFilenameByName } = useConfig();
   const { switchCharacter } = useSwitchCharacter();
+  const { language, setLanguage } = useI18n();
 
   const getCurrentBgKey = (): string[] => {
     if (!bgUrlContext?.backgroundUrl) return [];
     const currentBgUrl = bgUrlContext.backgroundUrl;
+    if (isLocalAssetUrl(currentBgUrl)) return [currentBgUrl];
     const path = currentBgUrl.replace(baseUrl, '');
     return path.startsWith('/bg/') ? [path] : [];
   };
 
   const initialSettings: GeneralSettings = {
-    language: ['en'],
+    language: [language],
     customBgUrl: !bgUrlContext?.backgroundUrl?.includes('/bg/')
+      && !isLocalAssetUrl(bgUrlContext?.backgroundUrl || '')
       ? bgUrlContext?.backgroundUrl || ''
       : '',
     selectedBgUrl: getCurrentBgKey(),
@@ -76,9 +82,16 @@ export const useGeneralSettings = ({
   useEffect(() => {
     setShowSubtitle(settings.showSubtitle);
 
+    const [newLanguage] = settings.language;
+    if (newLanguage && isSupportedLanguage(newLanguage)) {
+      setLanguage(newLanguage);
+    }
+
     const newBgUrl = settings.customBgUrl || settings.selectedBgUrl[0];
     if (newBgUrl && bgUrlContext) {
-      const fullUrl = newBgUrl.startsWith('http') ? newBgUrl : `${baseUrl}${newBgUrl}`;
+      const fullUrl = newBgUrl.startsWith('http') || isLocalAssetUrl(newBgUrl)
+        ? newBgUrl
+        : `${baseUrl}${newBgUrl}`;
       bgUrlContext.setBackgroundUrl(fullUrl);
     }
 
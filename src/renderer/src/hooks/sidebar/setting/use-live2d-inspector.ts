@@ -0,0 +1,67 @@
+import { useMemo } from 'react';
+import { useLive2DModel } from '@/context/live2d-model-context';
+import { MotionWeightMap } from '@/context/live2d-config-context';
+import { inspectModel, ModelInspection, ParameterInfo } from '@/utils/model-inspector';
+
+const EMPTY_INSPECTION: ModelInspection = {
+  motionGroups: [],
+  expressions: [],
+  hitAreas: [],
+  parameters: [],
+};
+
+// How long a previewed parameter is held at its maximum, in ms
+const PARAMETER_PREVIEW_MS = 600;
+
+/**
+ * Inspect the loaded Live2D model and preview its motions, expressions and parameters
+ */
+export const useLive2DInspector = () => {
+  const {
+    currentModel, playMotion, setParameters, resetPose,
+  } = useLive2DModel();
+
+  const inspection = useMemo(
+    () => (currentModel ? inspectModel(currentModel) : EMPTY_INSPECTION),
+    [currentModel],
+  );
+
+  const previewMotion = (group: string, index?: number): void => {
+    resetPose();
+    playMotion(group, index);
+  };
+
+  const previewExpression = (index: number): void => {
+    currentModel?.expression(index);
+  };
+
+  // Swing to whichever end is further from the default, then let go
+  const previewParameter = (parameter: ParameterInfo): void => {
+    const value = parameter.max - parameter.default >= parameter.default - parameter.min
+      ? parameter.max
+      : parameter.min;
+    setParameters([{ id: parameter.id, value }], { durationMs: PARAMETER_PREVIEW_MS });
+  };
+
+  // Play what a tap on the area would, given the tap motions being edited
+  const previewHitArea = (motions: MotionWeightMap | undefined): void => {
+    const entries = Object.entries(motions ?? {}).filter(([, weight]) => weight > 0);
+    const totalWeight = entries.reduce((sum, [, weight]) => sum + weight, 0);
+    let random = Math.random() * totalWeight;
+    const picked = entries.find(([, weight]) => {
+      random -= weight;
+      return random <= 0;
+    });
+    if (picked) previewMotion(picked[0]);
+  };
+
+  return {
+    hasModel: currentModel !== null,
+    inspection,
+    previewMotion,
+    previewExpression,
+    previewParameter,
+    previewHitArea,
+    resetPose: () => resetPose(),
+  };
+};
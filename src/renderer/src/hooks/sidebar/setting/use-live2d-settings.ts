@@ -1,8 +1,11 @@
 import { useState, useEffect } from 'react';
 import { ModelInfo, useLive2DConfig } from '@/context/live2d-config-context';
+import { useWebSocket } from '@/context/websocket-context';
+import { buildModelDictEntry } from '@/utils/model-inspector';
 
 export const useLive2dSettings = () => {
   const Live2DConfigContext = useLive2DConfig();
+  const { baseUrl } = useWebSocket();
 
   const initialModelInfo: ModelInfo = {
     url: '',
@@ -33,12 +36,50 @@ export const useLive2dSettings = () => {
     if (Live2DConfigContext && modelInfo) {
       Live2DConfigContext.setModelInfo(modelInfo);
     }
-  }, [modelInfo.pointerInteractive, modelInfo.scrollToResize]);
+  }, [
+    modelInfo.pointerInteractive,
+    modelInfo.scrollToResize,
+    modelInfo.lipSyncParamIds?.join(','),
+    modelInfo.lipSyncGain,
+    modelInfo.lipSyncSmoothing,
+    modelInfo.idleMotionGroupName,
+    modelInfo.cursorGaze,
+    modelInfo.cursorGazeStrength,
+    JSON.stringify(modelInfo.emotionMap),
+    JSON.stringify(modelInfo.tapMotions),
+  ]);
 
   const handleInputChange = (key: keyof ModelInfo, value: ModelInfo[keyof ModelInfo]): void => {
     setModelInfoState((prev) => ({ ...prev, [key]: value }));
   };
 
+  const handleEmotionChange = (emotion: string, expression: number | string | null): void => {
+    setModelInfoState((prev) => {
+      const emotionMap = { ...prev.emotionMap };
+      if (expression === null) {
+        delete emotionMap[emotion];
+      } else {
+        emotionMap[emotion] = expression;
+      }
+      return { ...prev, emotionMap };
+    });
+  };
+
+  // A weight of 0 removes the motion group from the hit area
+  const handleTapMotionChange = (hitArea: string, group: string, weight: number): void => {
+    setModelInfoState((prev) => {
+      const motions = { ...prev.tapMotions?.[hitArea] };
+      if (weight > 0) {
+        motions[group] = weight;
+      } else {
+        delete motions[group];
+      }
+      const tapMotions = { ...prev.tapMotions, [hitArea]: motions };
+      if (Object.keys(motions).length === 0) delete tapMotions[hitArea];
+      return { ...prev, tapMotions };
+    });
+  };
+
   const handleSave = (): void => {
     if (Live2DConfigContext && modelInfo) {
       setOriginalModelInfo(modelInfo);
@@ -54,7 +95,12 @@ export const useLive2dSettings = () => {
 
   return {
     modelInfo,
+    modelDictEntry: buildModelDictEntry(modelInfo, baseUrl),
+    hasSavedTransform: Live2DConfigContext.modelTransform !== null,
+    resetModelTransform: Live2DConfigContext.resetModelTransform,
     handleInputChange,
+    handleEmotionChange,
+    handleTapMotionChange,
     handleSave,
     handleCancel,
   };
@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react';
+import { MicSettings, getMicConstraints } from '@/context/vad-context';
+
+// RMS that fills the meter; normal speech sits around a third of it
+const FULL_SCALE_RMS = 0.3;
+
+/**
+ * Live input level of a microphone, for previewing settings before saving
+ * @param settings - Device and preprocessing to preview
+ * @param enabled - The microphone is only opened while enabled
+ * @returns Level between 0 and 1, and an error message if the mic could not be opened
+ */
+export function useMicLevel(settings: MicSettings, enabled: boolean) {
+  const [level, setLevel] = useState(0);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let context: AudioContext | null = null;
+    let frameId = 0;
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: getMicConstraints(settings),
+        });
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+        return;
+      }
+      if (cancelled) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+      setError('');
+
+      context = new AudioContext();
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 1024;
+      context.createMediaStreamSource(stream).connect(analyser);
+      const samples = new Float32Array(analyser.fftSize);
+
+      const update = () => {
+        analyser.getFloatTimeDomainData(samples);
+        let sumSquares = 0;
+        for (let i = 0; i < samples.length; i += 1) {
+          sumSquares += samples[i] * samples[i];
+        }
+        const rms = Math.sqrt(sumSquares / samples.length);
+        // Two decimals are plenty for a meter and spare most re-renders
+        setLevel(Math.round(Math.min(1, rms / FULL_SCALE_RMS) * 100) / 100);
+        frameId = requestAnimationFrame(update);
+      };
+      update();
+    };
+
+    start();
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frameId);
+      stream?.getTracks().forEach((track) => track.stop());
+      context?.close();
+      setLevel(0);
+    };
+  }, [
+    enabled,
+    settings.deviceId,
+    settings.echoCancellation,
+    settings.noiseSuppression,
+    settings.autoGainControl,
+  ]);
+
+  return { level, error };
+}
@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  ShortcutAction, ShortcutBindings, ShortcutState, SHORTCUT_ACTIONS, toAccelerator,
+} from '@/utils/accelerator';
+
+interface UseShortcutSettingsProps {
+  onSave?: (callback: () => void) => () => void
+  onCancel?: (callback: () => void) => () => void
+}
+
+export function useShortcutSettings({ onSave, onCancel }: UseShortcutSettingsProps = {}) {
+  const { api } = window;
+  const isAvailable = api !== undefined;
+
+  const [bindings, setBindings] = useState<ShortcutBindings | null>(null);
+  const [originalBindings, setOriginalBindings] = useState<ShortcutBindings | null>(null);
+  const [failed, setFailed] = useState<ShortcutAction[]>([]);
+  const [recordingAction, setRecordingAction] = useState<ShortcutAction | null>(null);
+
+  const applyState = useCallback((state: ShortcutState) => {
+    setBindings(state.bindings);
+    setOriginalBindings(state.bindings);
+    setFailed(state.failed);
+  }, []);
+
+  useEffect(() => {
+    if (!api) return;
+    api.getShortcuts().then(applyState).catch((error: unknown) => {
+      console.error('Failed to load shortcuts:', error);
+    });
+  }, [api, applyState]);
+
+  const setBinding = useCallback((action: ShortcutAction, accelerator: string) => {
+    setBindings((prev) => {
+      if (!prev) return prev;
+      // One key combination triggers one action
+      const next = { ...prev };
+      SHORTCUT_ACTIONS.forEach((other) => {
+        if (accelerator && next[other] === accelerator) next[other] = '';
+      });
+      next[action] = accelerator;
+      return next;
+    });
+    setFailed((prev) => prev.filter((item) => item !== action));
+  }, []);
+
+  // Capture the next key combination for the action being recorded
+  useEffect(() => {
+    if (!recordingAction) return undefined;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape' && !e.ctrlKey && !e.altKey && !e.shiftKey && !e.metaKey) {
+        setRecordingAction(null);
+        return;
+      }
+      const accelerator = toAccelerator(e);
+      if (!accelerator) return;
+      setBinding(recordingAction, accelerator);
+      setRecordingAction(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recordingAction, setBinding]);
+
+  const handleRecord = useCallback((action: ShortcutAction) => {
+    setRecordingAction((prev) => (prev === action ? null : action));
+  }, []);
+
+  const handleClear = useCallback((action: ShortcutAction) => {
+    setBinding(action, '');
+  }, [setBinding]);
+
+  const handleSave = useCallback(() => {
+    setRecordingAction(null);
+    if (!api || !bindings) return;
+    if (JSON.stringify(bindings) === JSON.stringify(originalBindings)) return;
+    api.setShortcuts(bindings).then(applyState).catch((error: unknown) => {
+      console.error('Failed to save shortcuts:', error);
+    });
+  }, [api, bindings, originalBindings, applyState]);
+
+  const handleCancel = useCallback(() => {
+    setRecordingAction(null);
+    setBindings(originalBindings);
+  }, [originalBindings]);
+
+  useEffect(() => {
+    if (!onSave || !onCancel) return;
+
+    const cleanupSave = onSave(handleSave);
+    const cleanupCancel = onCancel(handleCancel);
+
+    return () => {
+      cleanupSave?.();
+      cleanupCancel?.();
+    };
+  }, [onSave, onCancel, handleSave, handleCancel]);
+
+  return {
+    isAvailable,
+    bindings,
+    failed,
+    recordingAction,
+    handleRecord,
+    handleClear,
+  };
+}
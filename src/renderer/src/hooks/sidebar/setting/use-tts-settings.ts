@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  useTTSSettings as useTTSSettingsContext,
+  applyPlaybackSettings,
+  applyOutputRoute,
+  TTSPlaybackSettings,
+  AudioOutputRoute,
+} from '@/context/tts-settings-context';
+import { useWebSocket } from '@/context/websocket-context';
+import { useConfig } from '@/context/character-config-context';
+import { TTSVoiceConfig } from '@/services/websocket-protocol';
+import { useI18n } from '@/context/i18n-context';
+import { toaster } from '@/components/ui/toaster';
+
+interface UseTTSSettingsProps {
+  onSave?: (callback: () => void) => () => void
+  onCancel?: (callback: () => void) => () => void
+}
+
+export interface AudioOutputDevice {
+  deviceId: string
+  label: string
+}
+
+export function useTTSSettings({ onSave, onCancel }: UseTTSSettingsProps = {}) {
+  const {
+    playbackSettings,
+    updatePlaybackSettings,
+    voiceConfig,
+    updateVoiceConfig,
+    outputRoute,
+    updateOutputRoute,
+  } = useTTSSettingsContext();
+  const { sendMessage } = useWebSocket();
+  const { confName, confUid } = useConfig();
+  const { t } = useI18n();
+
+  const [tempPlayback, setTempPlayback] = useState<TTSPlaybackSettings>(playbackSettings);
+  const [originalPlayback, setOriginalPlayback] = useState<TTSPlaybackSettings>(playbackSettings);
+  const [tempVoice, setTempVoice] = useState<TTSVoiceConfig>(voiceConfig);
+  const [originalVoice, setOriginalVoice] = useState<TTSVoiceConfig>(voiceConfig);
+  const [tempRoute, setTempRoute] = useState<AudioOutputRoute>(outputRoute);
+  const [originalRoute, setOriginalRoute] = useState<AudioOutputRoute>(outputRoute);
+  const [outputDevices, setOutputDevices] = useState<AudioOutputDevice[]>([]);
+
+  useEffect(() => {
+    setTempPlayback(playbackSettings);
+    setOriginalPlayback(playbackSettings);
+  }, [playbackSettings]);
+
+  // Switching characters loads that character's voice and output devices
+  useEffect(() => {
+    setTempVoice(voiceConfig);
+    setOriginalVoice(voiceConfig);
+  }, [voiceConfig]);
+
+  useEffect(() => {
+    setTempRoute(outputRoute);
+    setOriginalRoute(outputRoute);
+  }, [outputRoute]);
+
+  useEffect(() => {
+    const loadDevices = async () => {
+      try {
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        setOutputDevices(devices
+          .filter((device) => device.kind === 'audiooutput' && device.deviceId !== 'default')
+          .map((device, index) => ({
+            deviceId: device.deviceId,
+            label: device.label || t('settings.tts.unnamedOutputDevice', { index: index + 1 }),
+          })));
+      } catch (error) {
+        console.error('Failed to list audio output devices:', error);
+      }
+    };
+
+    loadDevices();
+    navigator.mediaDevices.addEventListener('devicechange', loadDevices);
+    return () => {
+      navigator.mediaDevices.removeEventListener('devicechange', loadDevices);
+    };
+  }, [t]);
+
+  const handlePlaybackChange = useCallback(<K extends keyof TTSPlaybackSettings>(
+    key: K,
+    value: TTSPlaybackSettings[K],
+  ) => {
+    const next = { ...tempPlayback, [key]: value };
+    setTempPlayback(next);
+    // Let the user hear the change before saving
+    applyPlaybackSettings(next);
+  }, [tempPlayback]);
+
+  const handleRouteChange = useCallback(<K extends keyof AudioOutputRoute>(
+    key: K,
+    value: AudioOutputRoute[K],
+  ) => {
+    const next = { ...tempRoute, [key]: value };
+    setTempRoute(next);
+    applyOutputRoute(next);
+  }, [tempRoute]);
+
+  const handleVoiceChange = useCallback(<K extends keyof TTSVoiceConfig>(
+    key: K,
+    value: TTSVoiceConfig[K],
+  ) => {
+    setTempVoice((prev) => ({ ...prev, [key]: value }));
+  }, []);
+
+  const previewVoice = useCallback(() => {
+    const { status } = sendMessage({
+      type: 'tts-preview',
+      text: confName
+        ? t('settings.tts.previewTextWithName', { name: confName })
+        : t('settings.tts.previewText'),
+      tts_config: tempVoice,
+    });
+    if (status !== 'sent') {
+      toaster.create({
+        title: t('toast.previewDisconnected'),
+        type: 'error',
+        duration: 2000,
+      });
+    }
+  }, [sendMessage, confName, tempVoice, t]);
+
+  const handleSave = useCallback(() => {
+    updatePlaybackSettings(tempPlayback);
+    setOriginalPlayback(tempPlayback);
+    // Voice and output devices are stored per character
+    if (!confUid) {
+      if (tempVoice !== originalVoice || tempRoute !== originalRoute) {
+        toaster.create({
+          title: t('toast.voiceSettingsNotSaved'),
+          type: 'warning',
+          duration: 3000,
+        });
+      }
+      return;
+    }
+    updateVoiceConfig(tempVoice);
+    setOriginalVoice(tempVoice);
+    updateOutputRoute(tempRoute);
+    setOriginalRoute(tempRoute);
+  }, [
+    updatePlaybackSettings, tempPlayback, confUid, tempVoice, originalVoice, tempRoute, originalRoute,
+    updateVoiceConfig, updateOutputRoute, t,
+  ]);
+
+  const handleCancel = useCallback(() => {
+    setTempPlayback(originalPlayback);
+    applyPlaybackSettings(originalPlayback);
+    setTempVoice(originalVoice);
+    setTempRoute(originalRoute);
+    applyOutputRoute(originalRoute);
+  }, [originalPlayback, originalVoice, originalRoute]);
+
+  useEffect(() => {
+    if (!onSave || !onCancel) return;
+
+    const cleanupSave = onSave(handleSave);
+    const cleanupCancel = onCancel(handleCancel);
+
+    return () => {
+      cleanupSave?.();
+      cleanupCancel?.();
+    };
+  }, [onSave, onCancel, handleSave, handleCancel]);
+
+  return {
+    playbackSettings: tempPlayback,
+    voiceConfig: tempVoice,
+    outputRoute: tempRoute,
+    outputDevices,
+    handlePlaybackChange,
+    handleRouteChange,
+    handleVoiceChange,
+    previewVoice,
+  };
+}
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CalibratedSettings, suggestVADSettings } from '@/utils/vad-calibration';
+
+export type CalibrationStep = 'idle' | 'noise' | 'ready' | 'sample' | 'done' | 'failed';
+
+// Room noise is measured for this long, in ms
+export const NOISE_DURATION_MS = 5000;
+
+// Each sample sentence is recorded for this long, in ms
+export const SAMPLE_DURATION_MS = 4000;
+
+export const SAMPLE_COUNT = 3;
+
+/**
+ * Steps of the VAD calibration: measure the room, record a few sample
+ * sentences, then suggest thresholds. Feed it every frame's probability.
+ */
+export function useVADCalibration() {
+  const [step, setStep] = useState<CalibrationStep>('idle');
+  const [sampleIndex, setSampleIndex] = useState(0);
+  const [suggestion, setSuggestion] = useState<CalibratedSettings | null>(null);
+
+  // Read from the VAD callback, which does not re-render
+  const stepRef = useRef<CalibrationStep>('idle');
+  const noiseRef = useRef<number[]>([]);
+  const samplesRef = useRef<number[][]>([]);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const goTo = useCallback((next: CalibrationStep) => {
+    stepRef.current = next;
+    setStep(next);
+  }, []);
+
+  const clearTimer = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => clearTimer, [clearTimer]);
+
+  const pushProbability = useCallback((probability: number) => {
+    if (stepRef.current === 'noise') {
+      noiseRef.current.push(probability);
+    } else if (stepRef.current === 'sample') {
+      samplesRef.current[samplesRef.current.length - 1].push(probability);
+    }
+  }, []);
+
+  const start = useCallback(() => {
+    clearTimer();
+    noiseRef.current = [];
+    samplesRef.current = [];
+    setSampleIndex(0);
+    setSuggestion(null);
+    goTo('noise');
+    timerRef.current = setTimeout(() => goTo('ready'), NOISE_DURATION_MS);
+  }, [clearTimer, goTo]);
+
+  const recordSample = useCallback(() => {
+    if (stepRef.current !== 'ready') return;
+    samplesRef.current.push([]);
+    goTo('sample');
+    timerRef.current = setTimeout(() => {
+      const recorded = samplesRef.current.length;
+      setSampleIndex(recorded);
+      if (recorded < SAMPLE_COUNT) {
+        goTo('ready');
+        return;
+      }
+      const result = suggestVADSettings(noiseRef.current, samplesRef.current);
+      setSuggestion(result);
+      goTo(result ? 'done' : 'failed');
+    }, SAMPLE_DURATION_MS);
+  }, [goTo]);
+
+  const cancel = useCallback(() => {
+    clearTimer();
+    goTo('idle');
+  }, [clearTimer, goTo]);
+
+  return {
+    step,
+    sampleIndex,
+    suggestion,
+    isRunning: step === 'noise' || step === 'ready' || step === 'sample',
+    pushProbability,
+    start,
+    recordSample,
+    cancel,
+  };
+}
@@ -0,0 +1,82 @@
+import { useEffect, useRef, useState } from 'react';
+import { MicVAD } from '@ricky0123/vad-web';
+import { MicSettings, getMicConstraints, useVAD } from '@/context/vad-context';
+
+/**
+ * Speech probability of every VAD frame on a microphone, for tuning the
+ * thresholds. The conversation's VAD is paused meanwhile, so talking to the
+ * probe does not send anything to the AI.
+ * @param settings - Device and preprocessing to probe
+ * @param enabled - The microphone is only opened while enabled
+ * @param onProbability - Called with each frame's speech probability, from 0 to 1
+ * @param onSpeechEnd - Called with each utterance the probe's VAD detects
+ * @returns An error message if the mic could not be opened
+ */
+export function useVADProbe(
+  settings: MicSettings,
+  enabled: boolean,
+  onProbability: (probability: number) => void,
+  onSpeechEnd?: (audio: Float32Array) => void,
+) {
+  const { micOn, startMic, stopMic } = useVAD();
+  const [error, setError] = useState('');
+  const onProbabilityRef = useRef(onProbability);
+  onProbabilityRef.current = onProbability;
+  const onSpeechEndRef = useRef(onSpeechEnd);
+  onSpeechEndRef.current = onSpeechEnd;
+  const micOnRef = useRef(micOn);
+  micOnRef.current = micOn;
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let vad: MicVAD | null = null;
+    const wasMicOn = micOnRef.current;
+    if (wasMicOn) stopMic();
+
+    const start = async () => {
+      try {
+        const opened = await navigator.mediaDevices.getUserMedia({
+          audio: getMicConstraints(settings),
+        });
+        // The cleanup ran before the mic opened and could not stop it
+        if (cancelled) {
+          opened.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = opened;
+        vad = await MicVAD.new({
+          stream: opened,
+          onFrameProcessed: (probs) => onProbabilityRef.current(probs.isSpeech),
+          onSpeechEnd: (audio) => onSpeechEndRef.current?.(audio),
+        });
+        if (cancelled) {
+          vad.destroy();
+          opened.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        setError('');
+        vad.start();
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      }
+    };
+
+    start();
+    return () => {
+      cancelled = true;
+      vad?.destroy();
+      stream?.getTracks().forEach((track) => track.stop());
+      if (wasMicOn) startMic();
+    };
+  }, [
+    enabled,
+    settings.deviceId,
+    settings.echoCancellation,
+    settings.noiseSuppression,
+    settings.autoGainControl,
+  ]);
+
+  return { error };
+}
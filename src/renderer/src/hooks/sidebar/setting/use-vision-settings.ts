@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useVision, VisionSettings } from '@/context/vision-context';
+import { VisionSource } from '@/services/websocket-protocol';
+
+interface UseVisionSettingsProps {
+  onSave?: (callback: () => void) => () => void
+  onCancel?: (callback: () => void) => () => void
+}
+
+export function useVisionSettings({ onSave, onCancel }: UseVisionSettingsProps = {}) {
+  const { settings: persistedSettings, updateSettings } = useVision();
+
+  const [tempSettings, setTempSettings] = useState<VisionSettings>(persistedSettings);
+  const [originalSettings, setOriginalSettings] = useState<VisionSettings>(persistedSettings);
+
+  useEffect(() => {
+    if (persistedSettings) {
+      setOriginalSettings(persistedSettings);
+      setTempSettings(persistedSettings);
+    }
+  }, [persistedSettings]);
+
+  const handleEnabledChange = useCallback((checked: boolean) => {
+    setTempSettings((prev) => ({ ...prev, enabled: checked }));
+  }, []);
+
+  const handleSourcesChange = useCallback((value: string[]) => {
+    setTempSettings((prev) => ({ ...prev, sources: value as VisionSource[] }));
+  }, []);
+
+  const handleMaxSizeChange = useCallback((value: string[]) => {
+    const maxSize = Number(value[0]);
+    if (!maxSize) return;
+    setTempSettings((prev) => ({ ...prev, maxSize }));
+  }, []);
+
+  const handleQualityChange = useCallback((value: number) => {
+    if (Number.isNaN(value)) return;
+    setTempSettings((prev) => ({
+      ...prev,
+      quality: Math.min(1, Math.max(0.1, value)),
+    }));
+  }, []);
+
+  const handleSave = useCallback(() => {
+    updateSettings(tempSettings);
+    setOriginalSettings(tempSettings);
+  }, [updateSettings, tempSettings]);
+
+  const handleCancel = useCallback(() => {
+    setTempSettings(originalSettings);
+  }, [originalSettings]);
+
+  useEffect(() => {
+    if (!onSave || !onCancel) return;
+
+    const cleanupSave = onSave(handleSave);
+    const cleanupCancel = onCancel(handleCancel);
+
+    return () => {
+      cleanupSave?.();
+      cleanupCancel?.();
+    };
+  }, [onSave, onCancel, handleSave, handleCancel]);
+
+  return {
+    settings: tempSettings,
+    handleEnabledChange,
+    handleSourcesChange,
+    handleMaxSizeChange,
+    handleQualityChange,
+  };
+}
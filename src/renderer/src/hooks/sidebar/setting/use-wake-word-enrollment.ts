@@ -0,0 +1,62 @@
+import { useCallback, useRef, useState } from 'react';
+import { MicSettings } from '@/context/vad-context';
+import { Features, createWakeWordModel } from '@/utils/keyword-spotter';
+import { useVADProbe } from './use-vad-probe';
+
+// Recordings of the wake word taken for the spotter
+export const WAKE_WORD_SAMPLE_COUNT = 3;
+
+export type EnrollmentStep = 'idle' | 'recording' | 'failed';
+
+/**
+ * Record the wake word a few times and turn the recordings into spotter
+ * templates. Each utterance the probe's VAD detects counts as one recording.
+ * @param micSettings - Device and preprocessing to record with
+ * @param onEnrolled - Called with the templates and threshold once all recordings are in
+ */
+export function useWakeWordEnrollment(
+  micSettings: MicSettings,
+  onEnrolled: (model: { templates: Features[]; threshold: number }) => void,
+) {
+  const [step, setStep] = useState<EnrollmentStep>('idle');
+  const [recorded, setRecorded] = useState(0);
+  const recordingsRef = useRef<Float32Array[]>([]);
+
+  const handleSpeechEnd = useCallback((audio: Float32Array) => {
+    recordingsRef.current.push(audio);
+    setRecorded(recordingsRef.current.length);
+    if (recordingsRef.current.length < WAKE_WORD_SAMPLE_COUNT) return;
+
+    const model = createWakeWordModel(recordingsRef.current);
+    recordingsRef.current = [];
+    // Two recordings at least are needed to tell how much the phrase varies
+    if (model.templates.length < 2 || model.threshold <= 0) {
+      setStep('failed');
+      return;
+    }
+    setStep('idle');
+    onEnrolled(model);
+  }, [onEnrolled]);
+
+  const { error } = useVADProbe(micSettings, step === 'recording', () => {}, handleSpeechEnd);
+
+  const start = useCallback(() => {
+    recordingsRef.current = [];
+    setRecorded(0);
+    setStep('recording');
+  }, []);
+
+  const cancel = useCallback(() => {
+    recordingsRef.current = [];
+    setRecorded(0);
+    setStep('idle');
+  }, []);
+
+  return {
+    step,
+    recorded,
+    error,
+    start,
+    cancel,
+  };
+}
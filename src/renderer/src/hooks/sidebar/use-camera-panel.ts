@@ -1,5 +1,6 @@
 import { useRef, useState } from 'react';
 import { useCamera } from '@/context/camera-context';
+import { useI18n } from '@/context/i18n-context';
 
 export const useCameraPanel = () => {
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -8,6 +9,7 @@ export const useCameraPanel = () => {
   const {
     isStreaming, stream, startCamera, stopCamera,
   } = useCamera();
+  const { t } = useI18n();
 
   const toggleCamera = async (): Promise<void> => {
     try {
@@ -18,7 +20,7 @@ export const useCameraPanel = () => {
       }
       setError('');
     } catch (error) {
-      let errorMessage = 'Unable to access camera';
+      let errorMessage = t('camera.accessError');
       if (error instanceof Error) {
         errorMessage = error.message;
       }
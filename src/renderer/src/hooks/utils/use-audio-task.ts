@@ -4,13 +4,23 @@ import { useSubtitle } from '@/context/subtitle-context';
 import { useChatHistory } from '@/context/chat-history-context';
 import { audioTaskQueue } from '@/utils/task-queue';
 import { useLive2DModel } from '@/context/live2d-model-context';
+import { audioPlaybackEngine, PlaybackStream, streamFromBase64 } from '@/utils/audio-playback-engine';
+import { setLipSyncEnvelope } from '@/utils/lip-sync';
+import { ExpressionTimeline } from '@/utils/expression-timeline';
+import { onBeforeModelUpdate } from '@/utils/model-events';
+import { useLive2DConfig } from '@/context/live2d-config-context';
 
 interface AudioTaskOptions {
-  audioBase64: string
+  audioBase64?: string
+  // Streamed sentence, used instead of audioBase64
+  stream?: PlaybackStream
+  // Loudness envelope for lip-sync, one value per sliceLength ms
   volumes: number[]
   sliceLength: number
   text?: string | null
-  expressionList?: string[] | null
+  expressionList?: (string | number)[] | null
+  // Start of each expression in ms
+  expressionOffsets?: number[] | null
 }
 
 export const useAudioTask = () => {
@@ -18,10 +28,12 @@ export const useAudioTask = () => {
   const { setSubtitleText } = useSubtitle();
   const { appendResponse, appendAIMessage } = useChatHistory();
   const { currentModel } = useLive2DModel();
+  const { modelInfo } = useLive2DConfig();
 
   const stateRef = useRef({
     aiState,
     currentModel,
+    modelInfo,
     setSubtitleText,
     appendResponse,
     appendAIMessage,
@@ -30,6 +42,7 @@ export const useAudioTask = () => {
   stateRef.current = {
     aiState,
     currentModel,
+    modelInfo,
     setSubtitleText,
     appendResponse,
     appendAIMessage,
@@ -39,6 +52,7 @@ export const useAudioTask = () => {
     const {
       aiState: currentAiState,
       currentModel: model,
+      modelInfo: info,
       setSubtitleText: updateSubtitle,
       appendResponse: appendText,
       appendAIMessage: appendAI,
@@ -50,7 +64,9 @@ export const useAudioTask = () => {
       return;
     }
 
-    const { audioBase64, text, expressionList } = options;
+    const {
+      audioBase64, stream, volumes, sliceLength, text, expressionList, expressionOffsets,
+    } = options;
 
     if (text) {
       appendText(text);
@@ -64,21 +80,37 @@ export const useAudioTask = () => {
       return;
     }
 
+    // Sentences without audio only update the text
+    if (!stream && !audioBase64) {
+      onComplete();
+      return;
+    }
+
+    const timeline = new ExpressionTimeline(model, expressionList ?? [], {
+      offsets: expressionOffsets?.map((offset) => offset / 1000),
+      emotionMap: info?.emotionMap,
+    });
+    const updateExpression = () => {
+      const { seconds, complete } = audioPlaybackEngine.getDuration();
+      timeline.update(audioPlaybackEngine.getPosition(), seconds, complete);
+    };
+
     try {
-      model.speak(`data:audio/wav;base64,${audioBase64}`, {
-        expression: expressionList?.[0] || undefined,
-        resetExpression: true,
-        onFinish: () => {
-          console.log('Voiceline is over');
-          onComplete();
-        },
-        onError: (error) => {
-          console.error('Audio playback error:', error);
-          onComplete();
-        },
+      const removeListener = timeline.isEmpty
+        ? null
+        : onBeforeModelUpdate(model, updateExpression);
+      setLipSyncEnvelope({ volumes, sliceLength });
+      audioPlaybackEngine.play(stream ?? streamFromBase64(audioBase64!)).then(() => {
+        console.log('Voiceline is over');
+        setLipSyncEnvelope(null);
+        if (removeListener) {
+          removeListener();
+          timeline.reset();
+        }
+        onComplete();
       });
     } catch (error) {
-      console.error('Speak function error:', error);
+      console.error('Audio playback error:', error);
       onComplete();
     }
   };
@@ -0,0 +1,49 @@
+import { useEffect, useRef } from 'react';
+import { useVAD } from '@/context/vad-context';
+import { useInterrupt } from '@/hooks/utils/use-interrupt';
+import { useMicToggle } from '@/hooks/utils/use-mic-toggle';
+import { useTriggerSpeak } from '@/hooks/utils/use-trigger-speak';
+
+/**
+ * Act on the global shortcuts the main process registered, in both window and pet mode
+ */
+export function useGlobalShortcuts() {
+  const { togglePushToTalk } = useVAD();
+  const { handleMicToggle } = useMicToggle();
+  const { interrupt } = useInterrupt();
+  const { sendTriggerSignal } = useTriggerSpeak();
+
+  // Subscribe once; the handlers read the latest state through the ref
+  const handlersRef = useRef({
+    togglePushToTalk, handleMicToggle, interrupt, sendTriggerSignal,
+  });
+  handlersRef.current = {
+    togglePushToTalk, handleMicToggle, interrupt, sendTriggerSignal,
+  };
+
+  useEffect(() => {
+    const { api } = window;
+    if (!api) return undefined;
+
+    const unsubscribeShortcut = api.onGlobalShortcut((action) => {
+      const handlers = handlersRef.current;
+      switch (action) {
+        case 'push-to-talk':
+          handlers.togglePushToTalk();
+          break;
+        case 'mic-toggle':
+          handlers.handleMicToggle();
+          break;
+        case 'interrupt':
+          handlers.interrupt();
+          break;
+        case 'raise-hand':
+          handlers.sendTriggerSignal(-1, 'raise-hand');
+          break;
+        default:
+      }
+    });
+
+    return () => unsubscribeShortcut();
+  }, []);
+}
@@ -4,6 +4,7 @@ import { useChatHistory } from '@/context/chat-history-context';
 import { audioTaskQueue } from '@/utils/task-queue';
 import { useLive2DModel } from '@/context/live2d-model-context';
 import { useSubtitle } from '@/context/subtitle-context';
+import { audioPlaybackEngine } from '@/utils/audio-playback-engine';
 
 export const useInterrupt = () => {
   const { aiState, setAiState } = useAiState();
@@ -20,6 +21,7 @@ export const useInterrupt = () => {
     });
     setAiState('interrupted');
     audioTaskQueue.clearQueue();
+    audioPlaybackEngine.stop();
     if (currentModel) {
       currentModel.stopSpeaking();
     } else {
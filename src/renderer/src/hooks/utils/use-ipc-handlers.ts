@@ -7,7 +7,7 @@ import { useSwitchCharacter } from "@/hooks/utils/use-switch-character";
 export function useIpcHandlers({ isPet }: { isPet: boolean }) {
   const { handleMicToggle } = useMicToggle();
   const { interrupt } = useInterrupt();
-  const { modelInfo, setModelInfo } = useLive2DConfig();
+  const { modelInfo, setModelInfo, resetModelTransform } = useLive2DConfig();
   const { switchCharacter } = useSwitchCharacter();
 
   const micToggleHandler = useCallback(() => {
@@ -27,6 +27,10 @@ export function useIpcHandlers({ isPet }: { isPet: boolean }) {
     }
   }, [modelInfo, setModelInfo]);
 
+  const resetModelTransformHandler = useCallback(() => {
+    resetModelTransform();
+  }, [resetModelTransform]);
+
   const switchCharacterHandler = useCallback(
     (_event: Electron.IpcRendererEvent, filename: string) => {
       switchCharacter(filename);
@@ -42,6 +46,7 @@ export function useIpcHandlers({ isPet }: { isPet: boolean }) {
     window.electron.ipcRenderer.removeAllListeners("interrupt");
     window.electron.ipcRenderer.removeAllListeners("toggle-scroll-to-resize");
     window.electron.ipcRenderer.removeAllListeners("switch-character");
+    window.electron.ipcRenderer.removeAllListeners("reset-model-transform");
 
     window.electron.ipcRenderer.on("mic-toggle", micToggleHandler);
     window.electron.ipcRenderer.on("interrupt", interruptHandler);
@@ -50,6 +55,10 @@ export function useIpcHandlers({ isPet }: { isPet: boolean }) {
       scrollToResizeHandler,
     );
     window.electron.ipcRenderer.on("switch-character", switchCharacterHandler);
+    window.electron.ipcRenderer.on(
+      "reset-model-transform",
+      resetModelTransformHandler,
+    );
 
     return () => {
       window.electron?.ipcRenderer.removeAllListeners("mic-toggle");
@@ -58,12 +67,14 @@ export function useIpcHandlers({ isPet }: { isPet: boolean }) {
         "toggle-scroll-to-resize",
       );
       window.electron?.ipcRenderer.removeAllListeners("switch-character");
+      window.electron?.ipcRenderer.removeAllListeners("reset-model-transform");
     };
   }, [
     micToggleHandler,
     interruptHandler,
     scrollToResizeHandler,
     switchCharacterHandler,
+    resetModelTransformHandler,
     isPet,
   ]);
 }
@@ -1,10 +1,36 @@
-import { useCallback } from 'react';
+import { useCallback, useRef } from 'react';
 import { useWebSocket } from '@/context/websocket-context';
+import { useVision } from '@/context/vision-context';
+import { wsService } from '@/services/websocket-service';
+
+// MicVAD always delivers 16 kHz mono frames
+const SAMPLE_RATE = 16000;
+
+// Frames kept while silent, sent ahead of the speech start; matches the VAD pad
+const PRE_SPEECH_PAD_FRAMES = 20;
+
+type StreamState = 'idle' | 'streaming' | 'broken';
+
+/**
+ * Convert float samples in [-1, 1] to little-endian 16-bit PCM
+ */
+function toPcm16(frame: Float32Array): Int16Array {
+  const pcm = new Int16Array(frame.length);
+  for (let i = 0; i < frame.length; i += 1) {
+    const sample = Math.max(-1, Math.min(1, frame[i]));
+    pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return pcm;
+}
 
 export function useSendAudio() {
   const { sendMessage } = useWebSocket();
+  const { captureFrames } = useVision();
 
-  const sendAudioPartition = useCallback((audio: Float32Array) => {
+  const padFramesRef = useRef<Float32Array[]>([]);
+  const streamStateRef = useRef<StreamState>('idle');
+
+  const sendAudioPartition = useCallback(async (audio: Float32Array) => {
     const chunkSize = 4096;
     // Send the audio data in chunks
     for (let index = 0; index < audio.length; index += chunkSize) {
@@ -15,11 +41,94 @@ export function useSendAudio() {
         audio: Array.from(chunk),
       });
     }
-    // Send end signal after all chunks
-    sendMessage({ type: 'mic-audio-end' });
+    // Send end signal after all chunks, with what the user was looking at
+    const images = await captureFrames();
+    sendMessage({
+      type: 'mic-audio-end',
+      ...(images.length > 0 && { images }),
+    });
+  }, [sendMessage, captureFrames]);
+
+  const sendFrame = useCallback((frame: Float32Array) => {
+    if (!wsService.sendBinary(toPcm16(frame))) {
+      // The rest of the utterance goes through the JSON fallback
+      streamStateRef.current = 'broken';
+    }
+  }, []);
+
+  /**
+   * Feed every processed VAD frame; streamed live while speaking,
+   * otherwise kept as pre-speech padding
+   */
+  const pushFrame = useCallback((frame: Float32Array) => {
+    if (streamStateRef.current === 'streaming') {
+      sendFrame(frame);
+      return;
+    }
+    if (streamStateRef.current === 'broken') return;
+
+    padFramesRef.current.push(frame);
+    if (padFramesRef.current.length > PRE_SPEECH_PAD_FRAMES + 1) {
+      padFramesRef.current.shift();
+    }
+  }, [sendFrame]);
+
+  /**
+   * Open a binary audio stream if the server negotiated one
+   */
+  const startUtterance = useCallback(() => {
+    const format = wsService.getAudioUploadFormat();
+    const padFrames = padFramesRef.current;
+    padFramesRef.current = [];
+    if (!format) return;
+
+    const { status } = sendMessage({
+      type: 'mic-audio-stream-start',
+      format,
+      sample_rate: SAMPLE_RATE,
+    });
+    if (status !== 'sent') return;
+
+    streamStateRef.current = 'streaming';
+    padFrames.forEach(sendFrame);
+  }, [sendMessage, sendFrame]);
+
+  /**
+   * Finish the utterance, falling back to JSON if it was not streamed
+   * @param audio - Whole utterance as reported by the VAD
+   */
+  const finishUtterance = useCallback(async (audio: Float32Array) => {
+    const streamed = streamStateRef.current === 'streaming';
+    streamStateRef.current = 'idle';
+    padFramesRef.current = [];
+
+    if (!streamed) {
+      await sendAudioPartition(audio);
+      return;
+    }
+    const images = await captureFrames();
+    sendMessage({
+      type: 'mic-audio-end',
+      ...(images.length > 0 && { images }),
+    });
+  }, [sendAudioPartition, captureFrames, sendMessage]);
+
+  /**
+   * Drop the utterance, e.g. on a VAD misfire or when the mic stops mid-speech
+   */
+  const cancelUtterance = useCallback(() => {
+    if (streamStateRef.current === 'streaming') {
+      sendMessage({ type: 'mic-audio-stream-cancel' });
+    }
+    streamStateRef.current = 'idle';
+    padFramesRef.current = [];
   }, [sendMessage]);
 
   return {
     sendAudioPartition,
+    pushFrame,
+    startUtterance,
+    finishUtterance,
+    cancelUtterance,
   };
 }
@@ -6,6 +6,7 @@ import { useVAD } from '@/context/vad-context';
 import { useSubtitle } from '@/context/subtitle-context';
 import { useAiState } from '@/context/ai-state-context';
 import { useLive2DConfig } from '@/context/live2d-config-context';
+import { useI18n } from '@/context/i18n-context';
 
 export function useSwitchCharacter() {
   const { sendMessage } = useWebSocket();
@@ -15,6 +16,7 @@ export function useSwitchCharacter() {
   const { setSubtitleText } = useSubtitle();
   const { setAiState } = useAiState();
   const { setModelInfo } = useLive2DConfig();
+  const { t } = useI18n();
   const switchCharacter = useCallback((fileName: string) => {
     const currentFilename = getFilenameByName(confName);
 
@@ -23,7 +25,7 @@ export function useSwitchCharacter() {
       return;
     }
 
-    setSubtitleText('New Character Loading...');
+    setSubtitleText(t('subtitle.characterLoading'));
     interrupt();
     stopMic();
     setAiState('loading');
@@ -33,7 +35,7 @@ export function useSwitchCharacter() {
       file: fileName,
     });
     console.log('Switch Character fileName: ', fileName);
-  }, [confName, getFilenameByName, sendMessage, interrupt, stopMic, setSubtitleText, setAiState]);
+  }, [confName, getFilenameByName, sendMessage, interrupt, stopMic, setSubtitleText, setAiState, t]);
 
   return { switchCharacter };
 }
@@ -0,0 +1,30 @@
+import { useCallback, useRef } from 'react';
+import { useWebSocket } from '@/context/websocket-context';
+import { useProactiveSpeak } from '@/context/proactive-speak-context';
+import { TouchGesture } from '@/services/websocket-protocol';
+
+// Poking the avatar repeatedly should not flood the conversation
+export const TOUCH_EVENT_COOLDOWN_MS = 5000;
+
+export function useTouchEvent() {
+  const { sendMessage } = useWebSocket();
+  const { settings } = useProactiveSpeak();
+  const lastSentRef = useRef(0);
+
+  const sendTouchEvent = useCallback((hitArea: string | null, gesture: TouchGesture) => {
+    if (!settings.allowTouchEvents) return;
+    const now = Date.now();
+    if (now - lastSentRef.current < TOUCH_EVENT_COOLDOWN_MS) return;
+    lastSentRef.current = now;
+
+    sendMessage({
+      type: 'touch-event',
+      hit_area: hitArea,
+      gesture,
+    });
+  }, [settings.allowTouchEvents, sendMessage]);
+
+  return {
+    sendTouchEvent,
+  };
+}
@@ -1,15 +1,16 @@
 import { useCallback } from 'react';
 import { useWebSocket } from '@/context/websocket-context';
+import { SpeakReason } from '@/services/websocket-protocol';
 
 export function useTriggerSpeak() {
   const { sendMessage } = useWebSocket();
 
-  const sendTriggerSignal = useCallback((actualIdleTime: number) => {
-    sendMessage({
-      type: 'ai-speak-signal',
-      idle_time: actualIdleTime,
-    });
-  }, [sendMessage]);
+  // Returns the send status; the signal is dropped rather than queued while disconnected
+  const sendTriggerSignal = useCallback((actualIdleTime: number, reason: SpeakReason) => sendMessage({
+    type: 'ai-speak-signal',
+    idle_time: actualIdleTime,
+    reason,
+  }).status, [sendMessage]);
 
   return {
     sendTriggerSignal,
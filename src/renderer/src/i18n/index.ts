@@ -0,0 +1,88 @@
+import en from './locales/en.json';
+import zh from './locales/zh.json';
+
+/**
+ * Nested message catalog, looked up with dotted keys like 'settings.title'
+ */
+interface Catalog {
+  [key: string]: string | Catalog;
+}
+
+export type Language = 'en' | 'zh';
+
+export type TranslateParams = Record<string, string | number>;
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export const LANGUAGES: { label: string; value: Language }[] = [
+  { label: 'English', value: 'en' },
+  { label: '中文', value: 'zh' },
+];
+
+const CATALOGS: Record<Language, Catalog> = { en, zh };
+
+// Missing keys are reported once, not on every render
+const reportedMissingKeys = new Set<string>();
+
+export function isSupportedLanguage(language: string): language is Language {
+  return Object.prototype.hasOwnProperty.call(CATALOGS, language);
+}
+
+/**
+ * Pick the supported language closest to the system locale
+ */
+export function detectLanguage(): Language {
+  const [base] = (navigator.language || DEFAULT_LANGUAGE).toLowerCase().split('-');
+  return isSupportedLanguage(base) ? base : DEFAULT_LANGUAGE;
+}
+
+/**
+ * Catalogs to search for a language, most specific first:
+ * exact tag, base language ('zh-TW' -> 'zh'), then English
+ */
+export function getFallbackChain(language: string): Language[] {
+  const tag = language.toLowerCase();
+  const [base] = tag.split('-');
+  const chain = [tag, base, DEFAULT_LANGUAGE].filter(isSupportedLanguage);
+  return Array.from(new Set(chain));
+}
+
+function lookup(catalog: Catalog, key: string): string | undefined {
+  let node: string | Catalog | undefined = catalog;
+  const parts = key.split('.');
+  for (let i = 0; i < parts.length; i += 1) {
+    if (typeof node !== 'object') return undefined;
+    node = node[parts[i]];
+  }
+  return typeof node === 'string' ? node : undefined;
+}
+
+function interpolate(message: string, params?: TranslateParams): string {
+  if (!params) return message;
+  return message.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => (
+    name in params ? String(params[name]) : match
+  ));
+}
+
+/**
+ * Translate a key outside of React; components should use useI18n instead
+ * @param language - Language tag, e.g. 'en' or 'zh-CN'
+ * @param key - Dotted catalog key
+ * @param params - Values for {{name}} placeholders
+ * @returns The message, or the key itself if no catalog has it
+ */
+export function translate(language: string, key: string, params?: TranslateParams): string {
+  const chain = getFallbackChain(language);
+  for (let i = 0; i < chain.length; i += 1) {
+    const message = lookup(CATALOGS[chain[i]], key);
+    if (message !== undefined) {
+      return interpolate(message, params);
+    }
+  }
+
+  if (!reportedMissingKeys.has(key)) {
+    reportedMissingKeys.add(key);
+    console.warn(`Missing translation for key "${key}"`);
+  }
+  return key;
+}
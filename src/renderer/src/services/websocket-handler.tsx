@@ -1,14 +1,23 @@
 /* eslint-disable no-sparse-arrays */
 /* eslint-disable react-hooks/exhaustive-deps */
 // eslint-disable-next-line object-curly-newline
-import { useEffect, useState, useCallback, useMemo } from 'react';
-import { wsService, MessageEvent } from '@/services/websocket-service';
+import {
+  useEffect, useState, useCallback, useMemo, useRef,
+} from 'react';
+import { MotionPriority } from 'pixi-live2d-display-lipsyncpatch';
+import { wsService, SessionSnapshot, SendResult } from '@/services/websocket-service';
+import {
+  ServerMessage, ControlCommand, ProtocolError, MotionPriorityName,
+} from '@/services/websocket-protocol';
 import {
   WebSocketContext, HistoryInfo, defaultWsUrl, defaultBaseUrl,
 } from '@/context/websocket-context';
-import { useLive2DConfig } from '@/context/live2d-config-context';
+import { useLocalAssets } from '@/context/local-asset-context';
 import { useSubtitle } from '@/context/subtitle-context';
 import { audioTaskQueue } from '@/utils/task-queue';
+import {
+  audioPlaybackEngine, previewPlaybackEngine, PlaybackStream, streamFromBase64,
+} from '@/utils/audio-playback-engine';
 import { useAudioTask } from '@/components/canvas/live2d';
 import { useBgUrl } from '@/context/bgurl-context';
 import { useConfig } from '@/context/character-config-context';
@@ -16,24 +25,61 @@ import { useChatHistory } from '@/context/chat-history-context';
 import { toaster } from '@/components/ui/toaster';
 import { useVAD } from '@/context/vad-context';
 import { AiState, useAiState } from "@/context/ai-state-context";
+import { useI18n } from '@/context/i18n-context';
+import { useLive2DModel } from '@/context/live2d-model-context';
+
+const MOTION_PRIORITIES: Record<MotionPriorityName, MotionPriority> = {
+  idle: MotionPriority.IDLE,
+  normal: MotionPriority.NORMAL,
+  force: MotionPriority.FORCE,
+};
 
 function WebSocketHandler({ children }: { children: React.ReactNode }) {
   const [wsState, setWsState] = useState<string>('CLOSED');
   const [wsUrl, setWsUrl] = useState(defaultWsUrl);
   const [baseUrl, setBaseUrl] = useState(defaultBaseUrl);
   const { aiState, setAiState } = useAiState();
-  const { setModelInfo } = useLive2DConfig();
+  const { setServerModelInfo } = useLocalAssets();
   const { setSubtitleText } = useSubtitle();
   const { clearResponse, setForceNewMessage } = useChatHistory();
   const { addAudioTask } = useAudioTask();
   const bgUrlContext = useBgUrl();
-  const { setConfName, setConfUid, setConfigFiles } = useConfig();
   const {
-    setCurrentHistoryUid, setMessages, setHistoryList, appendHumanMessage,
+    confName, confUid, setConfName, setConfUid, setConfigFiles, getFilenameByName,
+  } = useConfig();
+  const {
+    currentHistoryUid, setCurrentHistoryUid, setMessages, loadHistoryMessages, setHistoryList,
+    appendHumanMessage, updateMessageStatus,
   } = useChatHistory();
   const { startMic, stopMic } = useVAD();
+  const { t } = useI18n();
+  const { playMotion, setParameters, resetPose } = useLive2DModel();
+  // Set while the previous character is being restored after a reconnect
+  const resumeSwitchRef = useRef(false);
+  // Sentence that incoming binary audio frames belong to
+  const audioStreamRef = useRef<PlaybackStream | null>(null);
+
+  useEffect(() => {
+    wsService.updateSession({
+      historyUid: currentHistoryUid,
+      confUid: confUid || null,
+      confFile: getFilenameByName(confName) ?? null,
+    });
+  }, [currentHistoryUid, confUid, confName, getFilenameByName]);
 
-  const handleControlMessage = useCallback((controlText: string) => {
+  const resumeSession = useCallback((session: SessionSnapshot) => {
+    if (!session.historyUid) return;
+    console.log('Resuming chat history after reconnect:', session.historyUid);
+    setCurrentHistoryUid(session.historyUid);
+    // Ahead of the messages queued while resuming
+    wsService.sendMessage({
+      type: 'fetch-and-set-history',
+      history_uid: session.historyUid,
+    }, true);
+    wsService.clearPendingResume();
+  }, [setCurrentHistoryUid]);
+
+  const handleControlMessage = useCallback((controlText: ControlCommand) => {
     switch (controlText) {
       case 'start-mic':
         console.log('Starting microphone...');
@@ -62,46 +108,50 @@ function WebSocketHandler({ children }: { children: React.ReactNode }) {
         }));
         break;
       default:
-        console.warn('Unknown control command:', controlText);
+        console.error('Unhandled control command:', controlText);
     }
   }, [setAiState, clearResponse, setForceNewMessage, startMic, stopMic]);
 
-  const handleWebSocketMessage = useCallback((message: MessageEvent) => {
+  const handleWebSocketMessage = useCallback((message: ServerMessage) => {
     console.log('Received message from server:', message);
     switch (message.type) {
       case 'control':
-        if (message.text) {
-          handleControlMessage(message.text);
-        }
+        handleControlMessage(message.text);
         break;
       case 'set-model':
         console.log('set-model: ', message.model_info);
-        if (message.model_info && !message.model_info.url.startsWith('http')) {
+        if (!message.model_info.url.startsWith('http')) {
           const modelUrl = baseUrl + message.model_info.url; // model_info.url must begin with /
           // eslint-disable-next-line no-param-reassign
           message.model_info.url = modelUrl;
         }
         setAiState('loading');
-        setModelInfo(message.model_info);
+        setServerModelInfo(message.model_info);
         setAiState('idle');
         break;
       case 'full-text':
-        if (message.text) {
-          setSubtitleText(message.text);
-        }
+        setSubtitleText(message.text);
         break;
       case 'config-files':
-        if (message.configs) {
-          setConfigFiles(message.configs);
-        }
+        setConfigFiles(message.configs);
         break;
       case 'config-switched':
+        if (resumeSwitchRef.current) {
+          resumeSwitchRef.current = false;
+          const resume = wsService.getPendingResume();
+          if (resume) {
+            resumeSession(resume);
+          }
+          setAiState('idle');
+          break;
+        }
+
         setAiState('idle');
-        setSubtitleText('New Character Loaded');
+        setSubtitleText(t('subtitle.characterLoaded'));
         startMic();
 
         toaster.create({
-          title: 'Character switched',
+          title: t('toast.characterSwitched'),
           type: 'success',
           duration: 2000,
         });
@@ -112,9 +162,9 @@ function WebSocketHandler({ children }: { children: React.ReactNode }) {
         wsService.sendMessage({ type: 'create-new-history' });
         break;
       case 'background-files':
-        if (message.files) {
-          bgUrlContext?.setBackgroundFiles(message.files);
-        }
+        bgUrlContext?.setBackgroundFiles(message.files.map((file) => (
+          typeof file === 'string' ? { name: file, url: `/bg/${file}` } : file
+        )));
         break;
       case 'audio':
         if (aiState === 'interrupted' || aiState === 'listening') {
@@ -126,15 +176,57 @@ function WebSocketHandler({ children }: { children: React.ReactNode }) {
             sliceLength: message.slice_length || 0,
             text: message.text || null,
             expressionList: message.expressions || null,
+            expressionOffsets: message.expression_offsets || null,
           });
         }
         break;
-      case 'config-info':
+      case 'audio-stream-start':
+        audioStreamRef.current?.end();
+        audioStreamRef.current = null;
+        if (aiState === 'interrupted' || aiState === 'listening') {
+          console.log('Audio stream intercepted. Sentence:', message.text);
+        } else {
+          const stream = audioPlaybackEngine.createStream({
+            format: message.format,
+            sampleRate: message.sample_rate,
+          });
+          audioStreamRef.current = stream;
+          addAudioTask({
+            stream,
+            volumes: [],
+            sliceLength: 0,
+            text: message.text || null,
+            expressionList: message.expressions || null,
+            expressionOffsets: message.expression_offsets || null,
+          });
+        }
+        break;
+      case 'audio-stream-end':
+        audioStreamRef.current?.end();
+        audioStreamRef.current = null;
+        break;
+      case 'tts-preview-audio':
+        previewPlaybackEngine.play(streamFromBase64(message.audio, previewPlaybackEngine));
+        break;
+      case 'config-info': {
+        const resume = wsService.getPendingResume();
+        if (resume && !resumeSwitchRef.current) {
+          if (resume.confFile && resume.confUid && message.conf_uid
+            && message.conf_uid !== resume.confUid) {
+            // The new connection started with the server's default character
+            console.log('Restoring character after reconnect:', resume.confFile);
+            resumeSwitchRef.current = true;
+            wsService.sendMessage({ type: 'switch-config', file: resume.confFile }, true);
+            break;
+          }
+          resumeSession(resume);
+        }
+
         if (message.conf_uid) {
           setConfUid(message.conf_uid);
           if (message.model_info) {
             setAiState('loading');
-            setModelInfo(message.model_info);
+            setServerModelInfo(message.model_info);
             setAiState('idle');
           }
         }
@@ -142,58 +234,70 @@ function WebSocketHandler({ children }: { children: React.ReactNode }) {
           setConfName(message.conf_name);
         }
         break;
+      }
       case 'history-data':
-        if (message.messages) {
-          setMessages(message.messages);
-        }
+        loadHistoryMessages(message.messages);
         toaster.create({
-          title: 'History loaded',
+          title: t('toast.historyLoaded'),
           type: 'success',
           duration: 2000,
         });
         break;
       case 'new-history-created':
         setAiState('idle');
-        setSubtitleText('New Conversation Started');
+        setSubtitleText(t('subtitle.newConversation'));
         // No need to open mic here
-        if (message.history_uid) {
-          setCurrentHistoryUid(message.history_uid);
-          setMessages([]);
-          const newHistory: HistoryInfo = {
-            uid: message.history_uid,
-            latest_message: null,
-            timestamp: new Date().toISOString(),
-          };
-          setHistoryList((prev: HistoryInfo[]) => [newHistory, ...prev]);
-          toaster.create({
-            title: 'New chat history created',
-            type: 'success',
-            duration: 2000,
-          });
-        }
+        setCurrentHistoryUid(message.history_uid);
+        setMessages([]);
+        setHistoryList((prev: HistoryInfo[]) => [{
+          uid: message.history_uid,
+          latest_message: null,
+          timestamp: new Date().toISOString(),
+        }, ...prev]);
+        toaster.create({
+          title: t('toast.historyCreated'),
+          type: 'success',
+          duration: 2000,
+        });
         break;
       case 'history-deleted':
         toaster.create({
           title: message.success
-            ? 'History deleted successfully'
-            : 'Failed to delete history',
+            ? t('toast.historyDeleted')
+            : t('toast.historyDeleteFailed'),
           type: message.success ? 'success' : 'error',
           duration: 2000,
         });
         break;
       case 'history-list':
-        if (message.histories) {
-          setHistoryList(message.histories);
-          if (message.histories.length > 0) {
-            setCurrentHistoryUid(message.histories[0].uid);
-          }
+        setHistoryList(message.histories);
+        // Keep the current history selected, e.g. when it was just resumed
+        if (message.histories.length > 0
+          && !message.histories.some((history) => history.uid === currentHistoryUid)) {
+          setCurrentHistoryUid(message.histories[0].uid);
         }
         break;
       case 'user-input-transcription':
         console.log('user-input-transcription: ', message.text);
-        if (message.text) {
-          appendHumanMessage(message.text);
-        }
+        appendHumanMessage(message.text);
+        break;
+      case 'play-motion':
+        playMotion(
+          message.group,
+          message.index ?? undefined,
+          MOTION_PRIORITIES[message.priority ?? 'normal'],
+        ).then((started) => {
+          if (!started) console.warn('Motion not played:', message.group, message.index);
+        });
+        break;
+      case 'set-parameters':
+        setParameters(message.parameters, {
+          tweenMs: message.tween_ms ?? undefined,
+          durationMs: message.duration_ms ?? null,
+        });
+        break;
+      case 'reset-pose':
+        resetPose(message.tween_ms ?? undefined);
         break;
       case 'error':
         toaster.create({
@@ -201,29 +305,78 @@ function WebSocketHandler({ children }: { children: React.ReactNode }) {
           type: 'error',
           duration: 2000,
         });
+        // The character could not be restored, so stop holding the queued messages
+        if (wsService.getPendingResume()) {
+          resumeSwitchRef.current = false;
+          wsService.clearPendingResume();
+          setAiState('idle');
+        }
         break;
       default:
-        console.warn('Unknown message type:', message.type);
+        console.error('Unhandled message type:', (message as ServerMessage).type);
+    }
+  }, [aiState, addAudioTask, appendHumanMessage, baseUrl, bgUrlContext, currentHistoryUid, resumeSession, setAiState, setConfName, setConfUid, setConfigFiles, setCurrentHistoryUid, setHistoryList, setMessages, loadHistoryMessages, setServerModelInfo, setSubtitleText, startMic, stopMic, t, playMotion, setParameters, resetPose]);
+
+  const handleProtocolError = useCallback((error: ProtocolError) => {
+    console.error('Protocol error:', error.message, error.frame);
+    toaster.create({
+      title: t('toast.protocolError'),
+      description: error.message,
+      type: 'error',
+      duration: 4000,
+    });
+  }, [t]);
+
+  const handleBinaryFrame = useCallback((data: ArrayBuffer) => {
+    audioStreamRef.current?.push(data);
+  }, []);
+
+  const handleSendStatus = useCallback((result: SendResult) => {
+    if (result.status === 'sent') {
+      updateMessageStatus(result.id, undefined);
+    } else if (result.status === 'failed') {
+      updateMessageStatus(result.id, 'failed');
+      if (result.type === 'mic-audio-end') {
+        toaster.create({
+          title: t('toast.voiceInputFailed'),
+          description: t('toast.connectionLost'),
+          type: 'error',
+          duration: 3000,
+        });
+      }
     }
-  }, [aiState, addAudioTask, appendHumanMessage, baseUrl, bgUrlContext, setAiState, setConfName, setConfUid, setConfigFiles, setCurrentHistoryUid, setHistoryList, setMessages, setModelInfo, setSubtitleText, startMic, stopMic]);
+  }, [updateMessageStatus, t]);
 
   useEffect(() => {
     wsService.connect(wsUrl);
   }, [wsUrl]);
 
   useEffect(() => {
-    const stateSubscription = wsService.onStateChange(setWsState);
+    const stateSubscription = wsService.onStateChange((state) => {
+      setWsState(state);
+      // The rest of a stream cut off by the disconnect will never arrive
+      if (state !== 'OPEN') {
+        audioStreamRef.current?.end();
+        audioStreamRef.current = null;
+      }
+    });
     const messageSubscription = wsService.onMessage(handleWebSocketMessage);
+    const errorSubscription = wsService.onProtocolError(handleProtocolError);
+    const sendStatusSubscription = wsService.onSendStatus(handleSendStatus);
+    const binarySubscription = wsService.onBinary(handleBinaryFrame);
     return () => {
+      binarySubscription.unsubscribe();
       stateSubscription.unsubscribe();
       messageSubscription.unsubscribe();
+      errorSubscription.unsubscribe();
+      sendStatusSubscription.unsubscribe();
     };
-  }, [wsUrl, handleWebSocketMessage]);
+  }, [wsUrl, handleWebSocketMessage, handleProtocolError, handleSendStatus, handleBinaryFrame]);
 
   const webSocketContextValue = useMemo(() => ({
     sendMessage: wsService.sendMessage.bind(wsService),
     wsState,
-    reconnect: () => wsService.connect(wsUrl),
+    reconnect: () => wsService.reconnect(),
     wsUrl,
     setWsUrl,
     baseUrl,
@@ -0,0 +1,170 @@
+import { ClientMessage, ClientMessageType } from '@/services/websocket-protocol';
+
+/**
+ * What happens to a message sent while the socket is not open:
+ * - replay: queued and sent once the connection is back
+ * - collapse: queued, replacing any queued message of the same type
+ * - drop: discarded, the message only makes sense on the current connection
+ */
+type OutboxMode = 'replay' | 'collapse' | 'drop';
+
+interface OutboxPolicy {
+  mode: OutboxMode;
+  // Queued messages older than this fail instead of being sent
+  maxAgeMs?: number;
+}
+
+/**
+ * Delivery status of an outgoing message
+ */
+export type SendStatus = 'sent' | 'pending' | 'failed' | 'dropped';
+
+/**
+ * Result of sending a message, and of every later status change
+ * @interface SendResult
+ */
+export interface SendResult {
+  id: string;
+  type: ClientMessageType;
+  status: SendStatus;
+}
+
+interface OutboxEntry {
+  id: string;
+  message: ClientMessage;
+  queuedAt: number;
+}
+
+// Upper bound on queued messages, roughly a minute of mic audio
+const OUTBOX_CAPACITY = 256;
+
+const TEXT_MAX_AGE_MS = 10 * 60 * 1000;
+const AUDIO_MAX_AGE_MS = 15 * 1000;
+
+const OUTBOX_POLICIES: { [T in ClientMessageType]: OutboxPolicy } = {
+  'protocol-handshake': { mode: 'drop' },
+  heartbeat: { mode: 'drop' },
+  'fetch-backgrounds': { mode: 'collapse' },
+  'fetch-conf-info': { mode: 'collapse' },
+  'fetch-configs': { mode: 'collapse' },
+  'fetch-history-list': { mode: 'collapse' },
+  'fetch-and-set-history': { mode: 'collapse' },
+  'create-new-history': { mode: 'replay' },
+  'delete-history': { mode: 'replay' },
+  'switch-config': { mode: 'replay' },
+  'text-input': { mode: 'replay', maxAgeMs: TEXT_MAX_AGE_MS },
+  // A late answer to an old utterance is worse than no answer
+  'mic-audio-data': { mode: 'replay', maxAgeMs: AUDIO_MAX_AGE_MS },
+  'mic-audio-end': { mode: 'replay', maxAgeMs: AUDIO_MAX_AGE_MS },
+  // Streams are bound to the connection; the JSON fallback covers replays
+  'mic-audio-stream-start': { mode: 'drop' },
+  'mic-audio-stream-cancel': { mode: 'drop' },
+  // Only the latest voice parameters matter
+  'tts-config': { mode: 'collapse' },
+  'tts-preview': { mode: 'drop' },
+  'interrupt-signal': { mode: 'drop' },
+  'ai-speak-signal': { mode: 'drop' },
+  'touch-event': { mode: 'drop' },
+};
+
+const isAudioMessage = (message: ClientMessage) => message.type === 'mic-audio-data'
+  || message.type === 'mic-audio-end';
+
+/**
+ * Bounded queue of messages waiting for the connection to come back
+ */
+export class Outbox {
+  private entries: OutboxEntry[] = [];
+
+  private nextId = 0;
+
+  private notify: (result: SendResult) => void;
+
+  /**
+   * @param notify - Called whenever a queued message changes status
+   */
+  constructor(notify: (result: SendResult) => void) {
+    this.notify = notify;
+  }
+
+  get isEmpty(): boolean {
+    return this.entries.length === 0;
+  }
+
+  createId(): string {
+    this.nextId += 1;
+    return `outbox-${Date.now()}-${this.nextId}`;
+  }
+
+  /**
+   * Queue a message according to its type's policy
+   * @returns Status of the message after queueing
+   */
+  enqueue(id: string, message: ClientMessage): SendStatus {
+    const policy = OUTBOX_POLICIES[message.type];
+    if (policy.mode === 'drop') {
+      return 'dropped';
+    }
+
+    this.prune();
+
+    if (policy.mode === 'collapse') {
+      this.discard((queued) => queued.type === message.type);
+    }
+
+    if (this.entries.length >= OUTBOX_CAPACITY) {
+      // Half an utterance is useless, so the queued part goes with it
+      if (isAudioMessage(message)) {
+        this.fail((entry) => isAudioMessage(entry.message));
+      }
+      return 'failed';
+    }
+
+    this.entries.push({ id, message, queuedAt: Date.now() });
+    return 'pending';
+  }
+
+  /**
+   * Fail queued messages that are older than their policy allows
+   */
+  prune() {
+    const now = Date.now();
+    this.fail((entry) => {
+      const { maxAgeMs } = OUTBOX_POLICIES[entry.message.type];
+      return maxAgeMs !== undefined && now - entry.queuedAt > maxAgeMs;
+    });
+  }
+
+  /**
+   * Remove queued messages that became redundant, without failing them
+   */
+  discard(predicate: (message: ClientMessage) => boolean) {
+    this.entries = this.entries.filter((entry) => {
+      if (!predicate(entry.message)) return true;
+      this.notify({ id: entry.id, type: entry.message.type, status: 'dropped' });
+      return false;
+    });
+  }
+
+  /**
+   * Hand queued messages to `send` in order until it refuses one
+   * @param send - Sends a message, returns false if the socket is not open
+   */
+  flush(send: (message: ClientMessage) => boolean) {
+    this.prune();
+    while (this.entries.length > 0) {
+      const [entry] = this.entries;
+      if (!send(entry.message)) return;
+      this.entries.shift();
+      this.notify({ id: entry.id, type: entry.message.type, status: 'sent' });
+    }
+  }
+
+  private fail(predicate: (entry: OutboxEntry) => boolean) {
+    this.entries = this.entries.filter((entry) => {
+      if (!predicate(entry)) return true;
+      this.notify({ id: entry.id, type: entry.message.type, status: 'failed' });
+      return false;
+    });
+  }
+}
@@ -0,0 +1,347 @@
+import { ModelInfo } from '@/context/live2d-config-context';
+import { HistoryInfo } from '@/context/websocket-context';
+import { ConfigFile } from '@/context/character-config-context';
+
+/**
+ * Protocol version spoken by this client, as "major.minor".
+ * Servers with a different major version are rejected during the handshake.
+ */
+export const PROTOCOL_VERSION = '1.0';
+
+export interface BackgroundFile {
+  name: string;
+  url: string;
+}
+
+export interface Message {
+  id: string;
+  content: string;
+  role: "ai" | "human";
+  timestamp: string;
+  // Delivery state of a human message typed while offline, unset once sent
+  status?: 'pending' | 'failed';
+}
+
+export type VisionSource = 'camera' | 'screen';
+
+/**
+ * Snapshot attached to user input, as a JPEG data URL
+ */
+export interface VisionImage {
+  source: VisionSource;
+  data: string;
+  mime_type: 'image/jpeg';
+}
+
+/**
+ * Binary encodings the client can stream mic audio in
+ */
+export type AudioUploadFormat = 'pcm16';
+
+/**
+ * Optional features announced in the protocol handshake
+ */
+export interface ProtocolCapabilities {
+  audio_upload?: string[];
+  audio_playback?: string[];
+  // Answers heartbeat with heartbeat-ack
+  heartbeat?: boolean;
+}
+
+/**
+ * Voice parameters for the server's TTS engine
+ */
+export interface TTSVoiceConfig {
+  // Voice name or id, empty for the character's default voice
+  voice: string;
+  speed: number;
+  pitch: number;
+}
+
+/**
+ * Priority of a motion requested by the server; a motion only interrupts
+ * one of lower priority
+ */
+export type MotionPriorityName = 'idle' | 'normal' | 'force';
+
+/**
+ * Target value of one Live2D parameter
+ */
+export interface ParameterValue {
+  id: string;
+  value: number;
+}
+
+/**
+ * How the user touched the avatar
+ */
+export type TouchGesture = 'tap' | 'drag';
+
+/**
+ * Why the client asks the AI to speak up
+ */
+export type SpeakReason =
+  | 'idle'
+  | 'raise-hand'
+  | 'system-idle'
+  | 'system-return'
+  | 'greeting-morning'
+  | 'greeting-afternoon'
+  | 'greeting-evening'
+  | 'app-focus'
+  | 'app-blur';
+
+export type ControlCommand =
+  | 'start-mic'
+  | 'stop-mic'
+  | 'conversation-chain-start'
+  | 'conversation-chain-end';
+
+/**
+ * Messages sent by the server
+ */
+export type ServerMessage =
+  | { type: 'protocol-handshake'; protocol_version: string; capabilities?: ProtocolCapabilities }
+  | { type: 'heartbeat-ack' }
+  | { type: 'control'; text: ControlCommand }
+  | { type: 'set-model'; model_info: ModelInfo }
+  | { type: 'full-text'; text: string }
+  | { type: 'config-files'; configs: ConfigFile[] }
+  | { type: 'config-switched' }
+  | { type: 'background-files'; files: (BackgroundFile | string)[] }
+  | {
+    type: 'audio';
+    audio?: string;
+    volumes?: number[];
+    slice_length?: number;
+    text?: string | null;
+    expressions?: (string | number)[] | null;
+    // Start of each expression in ms; spread evenly over the audio when absent
+    expression_offsets?: number[] | null;
+  }
+  // Binary audio frames follow until audio-stream-end
+  | {
+    type: 'audio-stream-start';
+    format: 'pcm16';
+    sample_rate: number;
+    text?: string | null;
+    expressions?: (string | number)[] | null;
+    expression_offsets?: number[] | null;
+  }
+  | { type: 'audio-stream-end' }
+  | {
+    type: 'config-info';
+    conf_uid?: string;
+    conf_name?: string;
+    model_info?: ModelInfo;
+  }
+  | { type: 'tts-preview-audio'; audio: string }
+  | { type: 'history-data'; messages: Message[] }
+  | { type: 'new-history-created'; history_uid: string }
+  | { type: 'history-deleted'; success: boolean }
+  | { type: 'history-list'; histories: HistoryInfo[] }
+  | { type: 'user-input-transcription'; text: string }
+  // Random motion of the group when index is absent
+  | { type: 'play-motion'; group: string; index?: number | null; priority?: MotionPriorityName | null }
+  // Parameters are held until reset-pose when duration_ms is absent
+  | {
+    type: 'set-parameters';
+    parameters: ParameterValue[];
+    tween_ms?: number | null;
+    duration_ms?: number | null;
+  }
+  | { type: 'reset-pose'; tween_ms?: number | null }
+  | { type: 'error'; message: string };
+
+/**
+ * Messages sent by the client
+ */
+export type ClientMessage =
+  | { type: 'protocol-handshake'; protocol_version: string; capabilities?: ProtocolCapabilities }
+  | { type: 'heartbeat' }
+  | { type: 'fetch-backgrounds' }
+  | { type: 'fetch-conf-info' }
+  | { type: 'fetch-configs' }
+  | { type: 'fetch-history-list' }
+  | { type: 'fetch-and-set-history'; history_uid: string }
+  | { type: 'create-new-history' }
+  | { type: 'delete-history'; history_uid: string }
+  | { type: 'switch-config'; file: string }
+  | { type: 'text-input'; text: string; images?: VisionImage[] }
+  | { type: 'mic-audio-data'; audio: number[] }
+  | { type: 'mic-audio-end'; images?: VisionImage[] }
+  // Binary audio frames follow until mic-audio-end or mic-audio-stream-cancel
+  | { type: 'mic-audio-stream-start'; format: AudioUploadFormat; sample_rate: number }
+  | { type: 'mic-audio-stream-cancel' }
+  | { type: 'tts-config'; tts_config: TTSVoiceConfig }
+  | { type: 'tts-preview'; text: string; tts_config: TTSVoiceConfig }
+  | { type: 'interrupt-signal'; text: string }
+  // idle_time is -1 when the signal does not follow a silence
+  | { type: 'ai-speak-signal'; idle_time: number; reason: SpeakReason }
+  // hit_area is null when the model was touched outside its hit areas
+  | { type: 'touch-event'; hit_area: string | null; gesture: TouchGesture };
+
+export type ServerMessageType = ServerMessage['type'];
+
+export type ClientMessageType = ClientMessage['type'];
+
+/**
+ * Raised when a frame from the server does not match the protocol
+ */
+export class ProtocolError extends Error {
+  readonly frame: unknown;
+
+  constructor(message: string, frame: unknown) {
+    super(message);
+    this.name = 'ProtocolError';
+    this.frame = frame;
+  }
+}
+
+type FieldCheck = (value: unknown) => boolean;
+
+const isString: FieldCheck = (value) => typeof value === 'string';
+const isNumber: FieldCheck = (value) => typeof value === 'number' && Number.isFinite(value);
+const isBoolean: FieldCheck = (value) => typeof value === 'boolean';
+const isObject: FieldCheck = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isNullish: FieldCheck = (value) => value === undefined || value === null;
+const isInRange = (min: number, max: number): FieldCheck => (value) => isNumber(value)
+  && (value as number) >= min && (value as number) <= max;
+
+const optional = (check: FieldCheck): FieldCheck => (value) => isNullish(value) || check(value);
+const oneOf = (...checks: FieldCheck[]): FieldCheck => (value) => checks.some((check) => check(value));
+const isArrayOf = (check: FieldCheck): FieldCheck => (value) => Array.isArray(value) && value.every(check);
+const isLiteral = (...allowed: string[]): FieldCheck => (value) => typeof value === 'string' && allowed.includes(value);
+const hasFields = (fields: Record<string, FieldCheck>): FieldCheck => (value) => isObject(value)
+  && Object.entries(fields).every(([key, check]) => check((value as Record<string, unknown>)[key]));
+
+const isModelInfo = hasFields({ url: isString });
+
+const isMessage = hasFields({
+  id: optional(isString),
+  content: isString,
+  role: isLiteral('ai', 'human'),
+  timestamp: isString,
+});
+
+const isHistoryInfo = hasFields({
+  uid: isString,
+  latest_message: optional(isObject),
+  timestamp: optional(isString),
+});
+
+const isConfigFile = hasFields({ filename: isString, name: isString });
+
+/**
+ * Field checks for every server message type. A type missing from this table
+ * is unknown to the client and will be rejected.
+ */
+const SERVER_MESSAGE_SCHEMAS: { [T in ServerMessageType]: Record<string, FieldCheck> } = {
+  'protocol-handshake': {
+    protocol_version: isString,
+    capabilities: optional(hasFields({
+      audio_upload: optional(isArrayOf(isString)),
+      audio_playback: optional(isArrayOf(isString)),
+      heartbeat: optional(isBoolean),
+    })),
+  },
+  'heartbeat-ack': {},
+  control: {
+    text: isLiteral('start-mic', 'stop-mic', 'conversation-chain-start', 'conversation-chain-end'),
+  },
+  'set-model': { model_info: isModelInfo },
+  'full-text': { text: isString },
+  'config-files': { configs: isArrayOf(isConfigFile) },
+  'config-switched': {},
+  // Older servers send plain file names instead of objects
+  'background-files': {
+    files: isArrayOf(oneOf(isString, hasFields({ name: isString, url: isString }))),
+  },
+  audio: {
+    audio: optional(isString),
+    volumes: optional(isArrayOf(isNumber)),
+    slice_length: optional(isNumber),
+    text: optional(isString),
+    expressions: optional(isArrayOf(oneOf(isString, isNumber))),
+    expression_offsets: optional(isArrayOf(isNumber)),
+  },
+  'audio-stream-start': {
+    format: isLiteral('pcm16'),
+    // The sample rates an AudioContext can play
+    sample_rate: isInRange(8000, 192000),
+    text: optional(isString),
+    expressions: optional(isArrayOf(oneOf(isString, isNumber))),
+    expression_offsets: optional(isArrayOf(isNumber)),
+  },
+  'audio-stream-end': {},
+  'config-info': {
+    conf_uid: optional(isString),
+    conf_name: optional(isString),
+    model_info: optional(isModelInfo),
+  },
+  'tts-preview-audio': { audio: isString },
+  'history-data': { messages: isArrayOf(isMessage) },
+  'new-history-created': { history_uid: isString },
+  'history-deleted': { success: isBoolean },
+  'history-list': { histories: isArrayOf(isHistoryInfo) },
+  'user-input-transcription': { text: isString },
+  'play-motion': {
+    group: isString,
+    index: optional(isNumber),
+    priority: optional(isLiteral('idle', 'normal', 'force')),
+  },
+  'set-parameters': {
+    parameters: isArrayOf(hasFields({ id: isString, value: isNumber })),
+    tween_ms: optional(isNumber),
+    duration_ms: optional(isNumber),
+  },
+  'reset-pose': { tween_ms: optional(isNumber) },
+  error: { message: isString },
+};
+
+/**
+ * Parse and validate a raw frame received from the server
+ * @param data - Raw frame payload
+ * @throws {ProtocolError} If the frame is malformed or of an unknown type
+ */
+export function parseServerMessage(data: unknown): ServerMessage {
+  if (typeof data !== 'string') {
+    throw new ProtocolError('Malformed frame: expected a text frame', data);
+  }
+
+  let frame: unknown;
+  try {
+    frame = JSON.parse(data);
+  } catch (error) {
+    throw new ProtocolError('Malformed frame: invalid JSON', data);
+  }
+
+  if (!isObject(frame) || !isString((frame as Record<string, unknown>).type)) {
+    throw new ProtocolError('Malformed frame: missing "type" field', frame);
+  }
+
+  const { type } = frame as { type: string };
+  if (!Object.prototype.hasOwnProperty.call(SERVER_MESSAGE_SCHEMAS, type)) {
+    throw new ProtocolError(`Unknown message type "${type}"`, frame);
+  }
+
+  const schema = SERVER_MESSAGE_SCHEMAS[type as ServerMessageType];
+  const invalidField = Object.keys(schema).find(
+    (field) => !schema[field]((frame as Record<string, unknown>)[field]),
+  );
+  if (invalidField) {
+    throw new ProtocolError(`Invalid field "${invalidField}" in "${type}" message`, frame);
+  }
+
+  return frame as ServerMessage;
+}
+
+/**
+ * Check whether a server protocol version can be spoken by this client
+ * @param serverVersion - Version reported by the server, as "major.minor"
+ */
+export function isCompatibleProtocolVersion(serverVersion: string): boolean {
+  const [serverMajor] = serverVersion.split('.');
+  const [clientMajor] = PROTOCOL_VERSION.split('.');
+  return serverMajor === clientMajor;
+}
@@ -1,39 +1,56 @@
 /* eslint-disable no-use-before-define */
 import { Subject } from 'rxjs';
-import { ModelInfo } from '@/context/live2d-config-context';
-import { HistoryInfo } from '@/context/websocket-context';
-import { ConfigFile } from '@/context/character-config-context';
+import {
+  ClientMessage,
+  ServerMessage,
+  ProtocolError,
+  ProtocolCapabilities,
+  AudioUploadFormat,
+  PROTOCOL_VERSION,
+  parseServerMessage,
+  isCompatibleProtocolVersion,
+} from '@/services/websocket-protocol';
+import { Outbox, SendResult } from '@/services/websocket-outbox';
 
-interface BackgroundFile {
-  name: string;
-  url: string;
-}
+export type { Message } from '@/services/websocket-protocol';
+export type { SendResult, SendStatus } from '@/services/websocket-outbox';
 
-export interface Message {
-  id: string;
-  content: string;
-  role: "ai" | "human";
-  timestamp: string;
-}
+// How long to wait for the server to answer the protocol handshake
+const HANDSHAKE_TIMEOUT_MS = 5000;
+
+// Binary audio encodings this client can stream, in order of preference
+const SUPPORTED_AUDIO_UPLOAD_FORMATS: AudioUploadFormat[] = ['pcm16'];
+
+// Streamed TTS encodings the playback engine understands
+const SUPPORTED_AUDIO_PLAYBACK_FORMATS = ['pcm16'];
+
+// Queued messages are released after this long even if the session was not restored
+const RESUME_TIMEOUT_MS = 10000;
+
+// Reconnection backoff: the delay doubles per attempt up to the cap, with jitter
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+// A heartbeat is sent every interval; the connection is considered dead
+// when no frame at all arrived within interval + timeout
+const HEARTBEAT_INTERVAL_MS = 15000;
+const HEARTBEAT_TIMEOUT_MS = 10000;
 
-export interface MessageEvent {
-  type: string;
-  audio?: string;
-  volumes?: number[];
-  slice_length?: number;
-  files?: BackgroundFile[];
-  expressions?: string[];
-  text?: string;
-  model_info?: ModelInfo;
-  conf_name?: string;
-  conf_uid?: string;
-  uids?: string[];
-  messages?: Message[];
-  history_uid?: string;
-  success?: boolean;
-  histories?: HistoryInfo[];
-  configs?: ConfigFile[];
-  message?: string;
+// Timers are suspended while the machine sleeps; a check running this much
+// later than scheduled means it woke up, and the socket is likely dead.
+// Hidden windows may run timers only once a minute, so the drift is larger.
+const WAKE_CHECK_INTERVAL_MS = 5000;
+const WAKE_DRIFT_MS = 2 * 60 * 1000;
+
+type ConnectionState = 'CONNECTING' | 'OPEN' | 'CLOSING' | 'CLOSED';
+
+/**
+ * Conversation the client is attached to, used to resume after a reconnect
+ */
+export interface SessionSnapshot {
+  historyUid: string | null;
+  confUid: string | null;
+  confFile: string | null;
 }
 
 class WebSocketService {
@@ -41,9 +58,50 @@ class WebSocketService {
 
   private ws: WebSocket | null = null;
 
-  private messageSubject = new Subject<MessageEvent>();
+  private url = '';
+
+  private shouldReconnect = false;
+
+  private hasConnected = false;
+
+  private reconnectAttempts = 0;
+
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+  private wakeTimer: ReturnType<typeof setInterval> | null = null;
+
+  private lastFrameAt = 0;
+
+  private session: SessionSnapshot = { historyUid: null, confUid: null, confFile: null };
+
+  private pendingResume: SessionSnapshot | null = null;
+
+  private resumeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private messageSubject = new Subject<ServerMessage>();
+
+  private errorSubject = new Subject<ProtocolError>();
+
+  private binarySubject = new Subject<ArrayBuffer>();
+
+  private handshakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Nothing but the handshake is sent until the server's version is known
+  private handshakePending = false;
+
+  private audioUploadFormat: AudioUploadFormat | null = null;
+
+  private stateSubject = new Subject<ConnectionState>();
+
+  private sendStatusSubject = new Subject<SendResult>();
+
+  private outbox = new Outbox((result) => this.sendStatusSubject.next(result));
 
-  private stateSubject = new Subject<'CONNECTING' | 'OPEN' | 'CLOSING' | 'CLOSED'>();
+  private constructor() {
+    window.addEventListener('online', () => this.reconnectNow());
+  }
 
   static getInstance() {
     if (!WebSocketService.instance) {
@@ -52,79 +110,400 @@ class WebSocketService {
     return WebSocketService.instance;
   }
 
-  private initializeConnection() {
+  private initializeConnection(resuming: boolean) {
+    // Fetches queued while offline are superseded by the ones below
+    this.outbox.discard((message) => message.type.startsWith('fetch-')
+      && message.type !== 'fetch-and-set-history');
+
     this.sendMessage({
       type: 'fetch-backgrounds',
-    });
+    }, true);
     this.sendMessage({
       type: 'fetch-conf-info',
-    });
+    }, true);
     this.sendMessage({
       type: 'fetch-configs',
-    });
+    }, true);
     this.sendMessage({
       type: 'fetch-history-list',
-    });
+    }, true);
+
+    // After a reconnect the handler restores the previous character and
+    // history once the server reports its current config. Queued messages
+    // wait until then so they land in the right conversation.
+    if (resuming && this.session.historyUid) {
+      this.pendingResume = { ...this.session };
+      this.resumeTimer = setTimeout(() => {
+        this.resumeTimer = null;
+        console.warn('Session was not restored in time, sending queued messages');
+        this.clearPendingResume();
+      }, RESUME_TIMEOUT_MS);
+      return;
+    }
+    this.pendingResume = null;
     this.sendMessage({
       type: 'create-new-history',
-    });
+    }, true);
+    this.flushOutbox();
   }
 
   connect(url: string) {
-    if (this.ws?.readyState === WebSocket.CONNECTING ||
+    const urlChanged = url !== this.url;
+    this.url = url;
+    this.shouldReconnect = true;
+
+    if (urlChanged) {
+      // A session belongs to the server it was created on
+      this.hasConnected = false;
+      this.reconnectAttempts = 0;
+    } else if (this.ws?.readyState === WebSocket.CONNECTING ||
         this.ws?.readyState === WebSocket.OPEN) {
       return;
     }
 
-    if (this.ws) {
-      this.ws.close();
-    }
+    this.clearReconnectTimer();
+    this.openSocket();
+  }
+
+  /**
+   * Reconnect immediately, skipping any pending backoff delay
+   */
+  reconnect() {
+    this.reconnectAttempts = 0;
+    this.connect(this.url);
+  }
 
-    this.ws = new WebSocket(url);
+  private openSocket() {
+    this.closeSocket();
+
+    const ws = new WebSocket(this.url);
+    ws.binaryType = 'arraybuffer';
+    this.ws = ws;
     this.stateSubject.next('CONNECTING');
 
-    this.ws.onopen = () => {
+    ws.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.lastFrameAt = Date.now();
       this.stateSubject.next('OPEN');
-      this.initializeConnection();
+      this.startWakeCheck();
+      this.startHandshake();
     };
 
-    this.ws.onmessage = (event) => {
+    ws.onmessage = (event) => {
+      this.lastFrameAt = Date.now();
+
+      if (event.data instanceof ArrayBuffer) {
+        this.binarySubject.next(event.data);
+        return;
+      }
+
+      let message: ServerMessage;
       try {
-        const message = JSON.parse(event.data);
-        this.messageSubject.next(message);
+        message = parseServerMessage(event.data);
       } catch (error) {
-        console.error('Failed to parse WebSocket message:', error);
+        this.errorSubject.next(error instanceof ProtocolError
+          ? error
+          : new ProtocolError(String(error), event.data));
+        return;
+      }
+
+      if (message.type === 'protocol-handshake') {
+        this.completeHandshake(message.protocol_version, message.capabilities);
+        return;
+      }
+      if (message.type === 'heartbeat-ack') {
+        return;
       }
+      this.messageSubject.next(message);
     };
 
-    this.ws.onclose = () => {
-      this.stateSubject.next('CLOSED');
+    ws.onclose = () => {
+      if (this.ws !== ws) return;
+      this.handleConnectionLost();
     };
 
-    this.ws.onerror = () => {
-      this.stateSubject.next('CLOSED');
+    ws.onerror = () => {
+      console.warn('WebSocket error on', this.url);
     };
   }
 
-  sendMessage(message: object) {
-    if (this.ws?.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(message));
-    } else {
-      console.warn('WebSocket is not open. Unable to send message:', message);
+  /**
+   * Detach and close the current socket without triggering a reconnect
+   */
+  private closeSocket() {
+    this.clearHandshakeTimer();
+    this.clearResumeTimer();
+    this.stopHeartbeat();
+    this.stopWakeCheck();
+    this.audioUploadFormat = null;
+    if (this.ws) {
+      const { ws } = this;
+      this.ws = null;
+      ws.onopen = null;
+      ws.onmessage = null;
+      ws.onclose = null;
+      ws.onerror = null;
+      if (ws.readyState === WebSocket.CONNECTING || ws.readyState === WebSocket.OPEN) {
+        ws.close();
+      }
+    }
+  }
+
+  private handleConnectionLost() {
+    this.closeSocket();
+    this.stateSubject.next('CLOSED');
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect() {
+    if (!this.shouldReconnect || this.reconnectTimer) return;
+    this.outbox.prune();
+
+    const ceiling = Math.min(
+      RECONNECT_MAX_DELAY_MS,
+      RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts,
+    );
+    // Equal jitter: half the delay is fixed, the other half random
+    const delay = ceiling / 2 + Math.random() * (ceiling / 2);
+    this.reconnectAttempts += 1;
+
+    console.log(`Reconnecting in ${Math.round(delay)}ms (attempt ${this.reconnectAttempts})`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSocket();
+    }, delay);
+  }
+
+  private reconnectNow() {
+    if (!this.shouldReconnect || this.ws) return;
+    this.clearReconnectTimer();
+    this.openSocket();
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private startHeartbeat() {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      // Timers are suspended while the machine sleeps, so a stale
+      // timestamp here also catches connections that died overnight
+      if (Date.now() - this.lastFrameAt > HEARTBEAT_INTERVAL_MS + HEARTBEAT_TIMEOUT_MS) {
+        console.warn('WebSocket heartbeat timed out, reconnecting');
+        this.handleConnectionLost();
+        return;
+      }
+      this.transmit({ type: 'heartbeat' });
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * Reconnect after the machine wakes from sleep, for servers without heartbeats
+   */
+  private startWakeCheck() {
+    this.stopWakeCheck();
+    let lastCheck = Date.now();
+    this.wakeTimer = setInterval(() => {
+      const now = Date.now();
+      const slept = now - lastCheck > WAKE_CHECK_INTERVAL_MS + WAKE_DRIFT_MS;
+      lastCheck = now;
+      if (slept) {
+        console.warn('Woke from sleep, reconnecting');
+        this.handleConnectionLost();
+      }
+    }, WAKE_CHECK_INTERVAL_MS);
+  }
+
+  private stopWakeCheck() {
+    if (this.wakeTimer) {
+      clearInterval(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+  }
+
+  private startHandshake() {
+    this.clearHandshakeTimer();
+    this.handshakePending = true;
+    this.sendMessage({
+      type: 'protocol-handshake',
+      protocol_version: PROTOCOL_VERSION,
+      capabilities: {
+        audio_upload: SUPPORTED_AUDIO_UPLOAD_FORMATS,
+        audio_playback: SUPPORTED_AUDIO_PLAYBACK_FORMATS,
+        heartbeat: true,
+      },
+    }, true);
+    this.handshakeTimer = setTimeout(() => {
+      this.handshakeTimer = null;
+      this.errorSubject.next(new ProtocolError(
+        `Server did not answer the protocol handshake (client version ${PROTOCOL_VERSION})`,
+        null,
+      ));
+      // Without a version there is no telling what the server understands
+      this.disconnect();
+    }, HANDSHAKE_TIMEOUT_MS);
+  }
+
+  private completeHandshake(serverVersion: string, capabilities?: ProtocolCapabilities) {
+    this.clearHandshakeTimer();
+    if (!isCompatibleProtocolVersion(serverVersion)) {
+      this.errorSubject.next(new ProtocolError(
+        `Incompatible protocol version: server speaks ${serverVersion}, client speaks ${PROTOCOL_VERSION}`,
+        { protocol_version: serverVersion },
+      ));
+      // Anything further would be misread by one side or the other
+      this.disconnect();
+      return;
+    }
+    // Servers that do not announce binary audio get the JSON float arrays
+    this.audioUploadFormat = SUPPORTED_AUDIO_UPLOAD_FORMATS.find(
+      (format) => capabilities?.audio_upload?.includes(format),
+    ) ?? null;
+    // Older servers would reject heartbeat frames as unknown messages
+    if (capabilities?.heartbeat) {
+      this.startHeartbeat();
+    }
+    console.log(
+      `Protocol handshake completed, server version: ${serverVersion}, audio upload: ${this.audioUploadFormat ?? 'json'}`,
+    );
+
+    this.handshakePending = false;
+    const resuming = this.hasConnected;
+    this.hasConnected = true;
+    this.initializeConnection(resuming);
+  }
+
+  /**
+   * Binary audio encoding negotiated with the server, null to use JSON
+   */
+  getAudioUploadFormat(): AudioUploadFormat | null {
+    return this.audioUploadFormat;
+  }
+
+  private clearHandshakeTimer() {
+    if (this.handshakeTimer) {
+      clearTimeout(this.handshakeTimer);
+      this.handshakeTimer = null;
+    }
+  }
+
+  /**
+   * Send a message, queueing it in the outbox while the socket is not open,
+   * during the handshake, while a session is being resumed, or behind
+   * messages already queued
+   * @param immediate - Skip the queue; only for the messages that set up
+   * or resume the connection
+   * @returns Id and initial status of the message, later status changes
+   * are reported through onSendStatus
+   */
+  sendMessage(message: ClientMessage, immediate = false): SendResult {
+    const id = this.outbox.createId();
+    const held = this.handshakePending || this.pendingResume !== null;
+    const queueClear = !held && this.outbox.isEmpty;
+    if ((immediate || queueClear) && this.transmit(message)) {
+      return { id, type: message.type, status: 'sent' };
+    }
+
+    const status = this.outbox.enqueue(id, message);
+    if (status !== 'pending') {
+      console.warn(`WebSocket is not open, message ${status}:`, message);
+    }
+    // After the caller has seen the pending status
+    if (!held) {
+      queueMicrotask(() => this.flushOutbox());
     }
+    return { id, type: message.type, status };
   }
 
-  onMessage(callback: (message: MessageEvent) => void) {
+  /**
+   * Send a binary frame. Binary frames are never queued.
+   * @returns Whether the frame was sent
+   */
+  sendBinary(data: ArrayBufferView): boolean {
+    if (this.ws?.readyState !== WebSocket.OPEN) return false;
+    this.ws.send(data);
+    return true;
+  }
+
+  private transmit(message: ClientMessage): boolean {
+    if (this.ws?.readyState !== WebSocket.OPEN) return false;
+    this.ws.send(JSON.stringify(message));
+    return true;
+  }
+
+  private flushOutbox() {
+    this.outbox.flush((message) => this.transmit(message));
+  }
+
+  onMessage(callback: (message: ServerMessage) => void) {
     return this.messageSubject.subscribe(callback);
   }
 
-  onStateChange(callback: (state: 'CONNECTING' | 'OPEN' | 'CLOSING' | 'CLOSED') => void) {
+  /**
+   * Binary frames from the server, e.g. streamed TTS audio
+   */
+  onBinary(callback: (data: ArrayBuffer) => void) {
+    return this.binarySubject.subscribe(callback);
+  }
+
+  onProtocolError(callback: (error: ProtocolError) => void) {
+    return this.errorSubject.subscribe(callback);
+  }
+
+  onStateChange(callback: (state: ConnectionState) => void) {
     return this.stateSubject.subscribe(callback);
   }
 
+  onSendStatus(callback: (result: SendResult) => void) {
+    return this.sendStatusSubject.subscribe(callback);
+  }
+
+  /**
+   * Record the conversation the client is attached to
+   */
+  updateSession(patch: Partial<SessionSnapshot>) {
+    this.session = { ...this.session, ...patch };
+  }
+
+  /**
+   * Session waiting to be restored after a reconnect, if any
+   */
+  getPendingResume(): SessionSnapshot | null {
+    return this.pendingResume;
+  }
+
+  /**
+   * Mark the session as restored and release the queued messages
+   */
+  clearPendingResume() {
+    this.clearResumeTimer();
+    this.pendingResume = null;
+    this.flushOutbox();
+  }
+
+  private clearResumeTimer() {
+    if (this.resumeTimer) {
+      clearTimeout(this.resumeTimer);
+      this.resumeTimer = null;
+    }
+  }
+
   disconnect() {
-    this.ws?.close();
-    this.ws = null;
+    this.shouldReconnect = false;
+    this.clearReconnectTimer();
+    this.closeSocket();
+    this.stateSubject.next('CLOSED');
   }
 }
 
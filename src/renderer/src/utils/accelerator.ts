@@ -0,0 +1,82 @@
+/**
+ * Global shortcut actions handled by the Electron main process
+ */
+export type ShortcutAction = 'push-to-talk' | 'mic-toggle' | 'interrupt' | 'raise-hand' | 'toggle-window';
+
+// Electron accelerator for each action, empty when unbound
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export interface ShortcutState {
+  bindings: ShortcutBindings;
+  // Actions whose accelerator is invalid or taken by another application
+  failed: ShortcutAction[];
+}
+
+export const SHORTCUT_ACTIONS: ShortcutAction[] = [
+  'push-to-talk',
+  'mic-toggle',
+  'interrupt',
+  'raise-hand',
+  'toggle-window',
+];
+
+const MODIFIER_KEYS = ['Control', 'Alt', 'Shift', 'Meta'];
+
+// KeyboardEvent.code values whose accelerator name differs
+const KEY_NAMES: Record<string, string> = {
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  Backquote: '`',
+  Minus: '-',
+  Equal: '=',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Semicolon: ';',
+  Quote: '\'',
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  NumpadAdd: 'numadd',
+  NumpadSubtract: 'numsub',
+  NumpadMultiply: 'nummult',
+  NumpadDivide: 'numdiv',
+  NumpadDecimal: 'numdec',
+};
+
+/**
+ * Electron accelerator name of the key, by physical position so that the
+ * keyboard layout and modifiers do not change it
+ */
+function keyName(code: string): string | null {
+  if (KEY_NAMES[code]) return KEY_NAMES[code];
+  if (/^Key[A-Z]$/.test(code)) return code.slice(3);
+  if (/^Digit[0-9]$/.test(code)) return code.slice(5);
+  if (/^Numpad[0-9]$/.test(code)) return `num${code.slice(6)}`;
+  if (/^F([1-9]|1[0-9]|2[0-4])$/.test(code)) return code;
+  if ([
+    'Space', 'Enter', 'Tab', 'Backspace', 'Delete', 'Insert', 'Home', 'End',
+    'PageUp', 'PageDown', 'Escape', 'PrintScreen',
+  ].includes(code)) return code;
+  return null;
+}
+
+/**
+ * Build an Electron accelerator from a key press, e.g. "Control+Shift+M"
+ * @returns Null while only modifiers are held, or for keys shortcuts cannot use
+ */
+export function toAccelerator(event: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+  const key = keyName(event.code);
+  if (!key) return null;
+
+  return [
+    event.ctrlKey && 'Control',
+    event.altKey && 'Alt',
+    event.shiftKey && 'Shift',
+    event.metaKey && 'Super',
+    key,
+  ].filter(Boolean).join('+');
+}
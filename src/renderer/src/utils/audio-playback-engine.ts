@@ -0,0 +1,510 @@
+/* eslint-disable no-use-before-define, max-classes-per-file */
+/**
+ * Web Audio playback for TTS, sentence by sentence.
+ * Streamed sentences start playing on their first chunk.
+ */
+
+/**
+ * Encoding of the chunks pushed into a stream:
+ * - pcm16: raw little-endian 16-bit mono PCM, playable chunk by chunk
+ * - encoded: complete audio files (wav, mp3, ...), decoded one by one
+ */
+export type PlaybackFormat = 'pcm16' | 'encoded';
+
+interface PlaybackStreamOptions {
+  format: PlaybackFormat;
+  // Required for pcm16
+  sampleRate?: number;
+}
+
+// Head start given to the first chunk so it is not clipped
+const START_LEAD_S = 0.02;
+
+// Scales the mean square of the output up to the 0-1 mouth opening the lip-sync expects
+const LIP_SYNC_LEVEL_GAIN = 20;
+
+/**
+ * Audio of one sentence, filled by the network and drained by the engine
+ */
+export class PlaybackStream {
+  readonly format: PlaybackFormat;
+
+  readonly sampleRate: number;
+
+  private engine: AudioPlaybackEngine;
+
+  private pending: Promise<AudioBuffer | null>[] = [];
+
+  private leftoverByte: number | null = null;
+
+  private ended = false;
+
+  private stopped = false;
+
+  private sink: ((buffer: AudioBuffer) => void) | null = null;
+
+  private onDrained: (() => void) | null = null;
+
+  constructor(engine: AudioPlaybackEngine, options: PlaybackStreamOptions) {
+    this.engine = engine;
+    this.format = options.format;
+    this.sampleRate = options.sampleRate ?? 0;
+  }
+
+  /**
+   * Append a chunk of audio in the stream's format
+   */
+  push(chunk: ArrayBuffer) {
+    if (this.ended || this.stopped) return;
+    const buffer = this.format === 'pcm16'
+      ? Promise.resolve(this.decodePcm16(chunk))
+      : this.engine.decode(chunk);
+    this.pending.push(buffer);
+    this.drain();
+  }
+
+  /**
+   * Mark the stream complete; playback finishes after the last chunk
+   */
+  end() {
+    this.ended = true;
+    this.drain();
+  }
+
+  /**
+   * Whether every chunk of the ended stream has been handed to the engine
+   */
+  get isDrained() {
+    return this.ended && this.pending.length === 0;
+  }
+
+  /** @internal Called by the engine when the stream starts playing */
+  attach(sink: (buffer: AudioBuffer) => void, onDrained: () => void) {
+    this.sink = sink;
+    this.onDrained = onDrained;
+    this.drain();
+  }
+
+  /** @internal Called by the engine when playback is stopped */
+  detach() {
+    this.stopped = true;
+    this.sink = null;
+    this.onDrained = null;
+    this.pending = [];
+  }
+
+  private async drain() {
+    // Chunks are handed over in order, whatever order they decode in
+    while (this.sink && this.pending.length > 0) {
+      const [next] = this.pending;
+      // eslint-disable-next-line no-await-in-loop
+      const buffer = await next;
+      if (this.pending[0] !== next || !this.sink) return;
+      this.pending.shift();
+      if (buffer) this.sink(buffer);
+    }
+    if (this.sink && this.ended && this.pending.length === 0) {
+      this.onDrained?.();
+    }
+  }
+
+  private decodePcm16(chunk: ArrayBuffer): AudioBuffer | null {
+    let bytes = new Uint8Array(chunk);
+    // Chunks may split a sample in two
+    if (this.leftoverByte !== null) {
+      const joined = new Uint8Array(bytes.length + 1);
+      joined[0] = this.leftoverByte;
+      joined.set(bytes, 1);
+      bytes = joined;
+      this.leftoverByte = null;
+    }
+    if (bytes.length % 2 === 1) {
+      this.leftoverByte = bytes[bytes.length - 1];
+      bytes = bytes.subarray(0, bytes.length - 1);
+    }
+    if (bytes.length === 0) return null;
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const samples = new Float32Array(bytes.length / 2);
+    for (let i = 0; i < samples.length; i += 1) {
+      samples[i] = view.getInt16(i * 2, true) / 0x8000;
+    }
+    return this.engine.createBuffer(samples, this.sampleRate);
+  }
+}
+
+/**
+ * Plays PlaybackStreams one at a time through a shared AudioContext
+ */
+export class AudioPlaybackEngine {
+  private context: AudioContext | null = null;
+
+  private gain: GainNode | null = null;
+
+  private analyser: AnalyserNode | null = null;
+
+  private sources = new Set<AudioBufferSourceNode>();
+
+  private nextStartTime = 0;
+
+  // Where each chunk of the current stream plays, for getPosition and getRecentOutput
+  private timeline: {
+    startAt: number;
+    offset: number;
+    duration: number;
+    rate: number;
+    buffer: AudioBuffer;
+  }[] = [];
+
+  // Stream time covered by the chunks scheduled so far, in seconds
+  private scheduledDuration = 0;
+
+  private volume = 1;
+
+  private playbackRate = 1;
+
+  private outputDeviceId = '';
+
+  private mirrorDeviceId = '';
+
+  // Second copy of the output, played through an audio element on another device
+  private mirror: { destination: MediaStreamAudioDestinationNode; element: HTMLAudioElement } | null = null;
+
+  private current: { stream: PlaybackStream; finish: () => void } | null = null;
+
+  // Streams waiting for the current one to finish, in order
+  private queue: { stream: PlaybackStream; resolve: () => void }[] = [];
+
+  private ensureContext(): AudioContext {
+    if (!this.context) {
+      this.context = new AudioContext();
+      this.gain = this.context.createGain();
+      this.gain.gain.value = this.volume;
+      this.analyser = this.context.createAnalyser();
+      this.analyser.fftSize = 1024;
+      this.gain.connect(this.analyser);
+      this.analyser.connect(this.context.destination);
+      if (this.outputDeviceId) {
+        this.applyOutputDevice();
+      }
+      if (this.mirrorDeviceId) {
+        this.applyMirrorDevice();
+      }
+    }
+    return this.context;
+  }
+
+  /**
+   * @param volume - Output gain between 0 and 1
+   */
+  setVolume(volume: number) {
+    this.volume = volume;
+    if (this.gain) {
+      this.gain.gain.value = volume;
+    }
+  }
+
+  /**
+   * Speed up or slow down playback; applies from the next chunk on.
+   * The pitch changes with the speed, use the TTS voice speed to keep it.
+   */
+  setPlaybackRate(rate: number) {
+    this.playbackRate = rate;
+  }
+
+  /**
+   * Route playback to an audio output device
+   * @param deviceId - Device id from enumerateDevices, empty for the system default
+   */
+  async setOutputDevice(deviceId: string) {
+    this.outputDeviceId = deviceId;
+    if (this.context) {
+      await this.applyOutputDevice();
+      await this.applyMirrorDevice();
+    }
+  }
+
+  /**
+   * Also play everything on a second output device, e.g. a virtual cable
+   * @param deviceId - Device id from enumerateDevices, empty to stop mirroring
+   */
+  async setMirrorDevice(deviceId: string) {
+    this.mirrorDeviceId = deviceId;
+    if (this.context) {
+      await this.applyMirrorDevice();
+    }
+  }
+
+  private async applyOutputDevice() {
+    // AudioContext.setSinkId is not in the DOM typings yet
+    const context = this.context as AudioContext & {
+      setSinkId?: (sinkId: string) => Promise<void>;
+    };
+    if (!context.setSinkId) {
+      console.warn('Selecting an audio output device is not supported');
+      return;
+    }
+    try {
+      await context.setSinkId(this.outputDeviceId);
+    } catch (error) {
+      console.error('Failed to set audio output device:', error);
+    }
+  }
+
+  private async applyMirrorDevice() {
+    // Mirroring onto the main output would only play everything twice
+    const deviceId = this.mirrorDeviceId !== this.outputDeviceId ? this.mirrorDeviceId : '';
+    if (!deviceId) {
+      if (this.mirror) {
+        this.mirror.element.pause();
+        this.mirror.element.srcObject = null;
+        this.gain?.disconnect(this.mirror.destination);
+        this.mirror = null;
+      }
+      return;
+    }
+
+    if (!this.mirror) {
+      const destination = this.context!.createMediaStreamDestination();
+      this.gain!.connect(destination);
+      const element = new Audio();
+      element.srcObject = destination.stream;
+      this.mirror = { destination, element };
+    }
+    try {
+      await this.mirror.element.setSinkId(deviceId);
+      await this.mirror.element.play();
+    } catch (error) {
+      console.error('Failed to mirror audio output:', error);
+    }
+  }
+
+  createStream(options: PlaybackStreamOptions): PlaybackStream {
+    return new PlaybackStream(this, options);
+  }
+
+  /**
+   * Play a stream until it ends or playback is stopped.
+   * If another stream is still playing, this one plays after it.
+   */
+  play(stream: PlaybackStream): Promise<void> {
+    if (this.current) {
+      return new Promise<void>((resolve) => {
+        this.queue.push({ stream, resolve });
+      });
+    }
+    return this.start(stream);
+  }
+
+  private start(stream: PlaybackStream): Promise<void> {
+    const context = this.ensureContext();
+    if (context.state === 'suspended') {
+      context.resume().catch((error) => console.error('Failed to resume audio context:', error));
+    }
+
+    return new Promise<void>((resolve) => {
+      const finish = () => {
+        if (this.current?.stream !== stream) return;
+        this.current = null;
+        resolve();
+        const next = this.queue.shift();
+        if (next) {
+          this.start(next.stream).then(next.resolve);
+        }
+      };
+      this.current = { stream, finish };
+      this.nextStartTime = 0;
+      this.timeline = [];
+      this.scheduledDuration = 0;
+
+      stream.attach(
+        (buffer) => this.schedule(buffer),
+        () => this.finishWhenSilent(stream),
+      );
+    });
+  }
+
+  /**
+   * Stop playback immediately, resolving the current and queued play() calls
+   */
+  stop() {
+    const queued = this.queue;
+    this.queue = [];
+    queued.forEach(({ stream, resolve }) => {
+      stream.detach();
+      resolve();
+    });
+
+    this.sources.forEach((source) => {
+      // eslint-disable-next-line no-param-reassign
+      source.onended = null;
+      try {
+        source.stop();
+      } catch (error) {
+        // Sources that never started cannot be stopped
+      }
+      source.disconnect();
+    });
+    this.sources.clear();
+    this.nextStartTime = 0;
+    this.timeline = [];
+    this.scheduledDuration = 0;
+
+    if (this.current) {
+      const { stream, finish } = this.current;
+      stream.detach();
+      finish();
+    }
+  }
+
+  get isPlaying(): boolean {
+    return this.current !== null;
+  }
+
+  /**
+   * How far into the current stream playback is, in seconds of stream audio.
+   * Gaps from network underruns do not count.
+   */
+  getPosition(): number {
+    if (!this.context || !this.current) return 0;
+    const now = this.context.currentTime;
+    for (let i = this.timeline.length - 1; i >= 0; i -= 1) {
+      const {
+        startAt, offset, duration, rate,
+      } = this.timeline[i];
+      if (startAt <= now) {
+        return offset + Math.min(duration, (now - startAt) * rate);
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Length of the current stream so far, in seconds of stream audio
+   * @returns The length, and whether every chunk of the stream has arrived
+   */
+  getDuration(): { seconds: number; complete: boolean } {
+    return {
+      seconds: this.scheduledDuration,
+      complete: this.current?.stream.isDrained ?? false,
+    };
+  }
+
+  /**
+   * Loudness of the output right now, on the scale the Live2D lip-sync expects
+   */
+  getLevel(): number {
+    if (!this.analyser || this.sources.size === 0) return 0;
+    const samples = new Float32Array(this.analyser.fftSize);
+    this.analyser.getFloatTimeDomainData(samples);
+    let sumSquares = 0;
+    for (let i = 0; i < samples.length; i += 1) {
+      sumSquares += samples[i] * samples[i];
+    }
+    return Math.sqrt((sumSquares / samples.length) * LIP_SYNC_LEVEL_GAIN);
+  }
+
+  /**
+   * What the speakers played over the last few seconds, rebuilt from the
+   * scheduled chunks, e.g. as the reference for recognising its echo
+   * @param seconds - Length of the window ending now
+   * @param sampleRate - Sample rate of the result
+   * @returns Mono samples at unit gain, or null if nothing is playing
+   */
+  getRecentOutput(seconds: number, sampleRate: number): Float32Array | null {
+    if (!this.context || !this.current || this.timeline.length === 0) return null;
+    // currentTime runs ahead of what is audible by the output latency
+    const end = this.context.currentTime - (this.context.outputLatency || this.context.baseLatency || 0);
+    const start = end - seconds;
+    const output = new Float32Array(Math.round(seconds * sampleRate));
+
+    this.timeline.forEach(({
+      startAt, duration, rate, buffer,
+    }) => {
+      const stopAt = startAt + duration / rate;
+      if (stopAt <= start || startAt >= end) return;
+      const samples = buffer.getChannelData(0);
+      const first = Math.max(0, Math.ceil((startAt - start) * sampleRate));
+      const last = Math.min(output.length, Math.floor((stopAt - start) * sampleRate));
+      for (let i = first; i < last; i += 1) {
+        const position = Math.floor((start + i / sampleRate - startAt) * rate * buffer.sampleRate);
+        if (position >= 0 && position < samples.length) output[i] = samples[position];
+      }
+    });
+    return output;
+  }
+
+  /** @internal */
+  createBuffer(samples: Float32Array, sampleRate: number): AudioBuffer {
+    const buffer = this.ensureContext().createBuffer(1, samples.length, sampleRate);
+    buffer.copyToChannel(samples, 0);
+    return buffer;
+  }
+
+  /** @internal */
+  async decode(data: ArrayBuffer): Promise<AudioBuffer | null> {
+    try {
+      return await this.ensureContext().decodeAudioData(data);
+    } catch (error) {
+      console.error('Failed to decode audio chunk:', error);
+      return null;
+    }
+  }
+
+  private schedule(buffer: AudioBuffer) {
+    const context = this.ensureContext();
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = this.playbackRate;
+    source.connect(this.gain!);
+
+    // Chunks are laid end to end; after an underrun playback restarts now
+    const startAt = Math.max(this.nextStartTime, context.currentTime + START_LEAD_S);
+    source.start(startAt);
+    this.nextStartTime = startAt + buffer.duration / this.playbackRate;
+    this.timeline.push({
+      startAt,
+      offset: this.scheduledDuration,
+      duration: buffer.duration,
+      rate: this.playbackRate,
+      buffer,
+    });
+    this.scheduledDuration += buffer.duration;
+
+    this.sources.add(source);
+    source.onended = () => {
+      this.sources.delete(source);
+      source.disconnect();
+      if (this.current?.stream.isDrained) {
+        this.finishWhenSilent(this.current.stream);
+      }
+    };
+  }
+
+  private finishWhenSilent(stream: PlaybackStream) {
+    if (this.current?.stream === stream && this.sources.size === 0) {
+      this.current.finish();
+    }
+  }
+}
+
+/** Character speech, routed to the character's output devices */
+export const audioPlaybackEngine = new AudioPlaybackEngine();
+
+/** Voice previews, left on the system default output */
+export const previewPlaybackEngine = new AudioPlaybackEngine();
+
+/**
+ * Wrap a complete base64 audio file in a playback stream
+ * @param engine - Engine that will play the stream
+ */
+export function streamFromBase64(
+  audioBase64: string,
+  engine: AudioPlaybackEngine = audioPlaybackEngine,
+): PlaybackStream {
+  const bytes = Uint8Array.from(atob(audioBase64), (char) => char.charCodeAt(0));
+  const stream = engine.createStream({ format: 'encoded' });
+  stream.push(bytes.buffer);
+  stream.end();
+  return stream;
+}
@@ -0,0 +1,104 @@
+import { audioPlaybackEngine } from '@/utils/audio-playback-engine';
+
+// MicVAD delivers 16 kHz mono frames
+const SAMPLE_RATE = 16000;
+
+// Loudness envelopes are compared in 10 ms blocks; waveforms do not survive
+// the room and the browser's echo cancellation, envelopes mostly do
+const BLOCK_SAMPLES = 160;
+
+// Latest the character's voice reaches the mic: output, room and input latency
+const MAX_ECHO_DELAY_S = 0.4;
+
+// Mic audio whose envelope follows the output this closely is the character itself
+const ECHO_CORRELATION_THRESHOLD = 0.6;
+
+// Below this RMS the output is silent and cannot be what the mic hears
+const SILENCE_RMS = 0.005;
+
+function toEnvelope(samples: Float32Array): Float32Array {
+  const envelope = new Float32Array(Math.floor(samples.length / BLOCK_SAMPLES));
+  for (let block = 0; block < envelope.length; block += 1) {
+    let sumSquares = 0;
+    for (let i = block * BLOCK_SAMPLES; i < (block + 1) * BLOCK_SAMPLES; i += 1) {
+      sumSquares += samples[i] * samples[i];
+    }
+    envelope[block] = Math.sqrt(sumSquares / BLOCK_SAMPLES);
+  }
+  return envelope;
+}
+
+/**
+ * Pearson correlation of a with b from the given offset, over a's length
+ */
+function correlate(a: Float32Array, b: Float32Array, offset: number): number {
+  const n = a.length;
+  let meanA = 0;
+  let meanB = 0;
+  for (let i = 0; i < n; i += 1) {
+    meanA += a[i];
+    meanB += b[offset + i];
+  }
+  meanA /= n;
+  meanB /= n;
+
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < n; i += 1) {
+    const da = a[i] - meanA;
+    const db = b[offset + i] - meanB;
+    covariance += da * db;
+    varianceA += da * da;
+    varianceB += db * db;
+  }
+  if (varianceA === 0 || varianceB === 0) return 0;
+  return covariance / Math.sqrt(varianceA * varianceB);
+}
+
+/**
+ * How closely the mic follows the reference at the best echo delay
+ * @param mic - Latest mic samples
+ * @param reference - Output over the same window plus MAX_ECHO_DELAY_S before it
+ * @returns Correlation from -1 to 1
+ */
+export function echoSimilarity(mic: Float32Array, reference: Float32Array): number {
+  const micEnvelope = toEnvelope(mic);
+  const referenceEnvelope = toEnvelope(reference);
+  const maxLag = referenceEnvelope.length - micEnvelope.length;
+  if (micEnvelope.length < 2 || maxLag < 0) return 0;
+
+  const referenceRms = Math.sqrt(
+    referenceEnvelope.reduce((sum, value) => sum + value * value, 0) / referenceEnvelope.length,
+  );
+  if (referenceRms < SILENCE_RMS) return 0;
+
+  let best = -1;
+  for (let lag = 0; lag <= maxLag; lag += 1) {
+    // The mic hears the output from lag blocks earlier
+    best = Math.max(best, correlate(micEnvelope, referenceEnvelope, maxLag - lag));
+  }
+  return best;
+}
+
+/**
+ * Whether the latest mic frames are the character's own voice coming back
+ * through the speakers, judged against what the playback engine played
+ * @param frames - Latest MicVAD frames, oldest first
+ */
+export function isSelfEcho(frames: Float32Array[]): boolean {
+  const length = frames.reduce((sum, frame) => sum + frame.length, 0);
+  if (length === 0) return false;
+  const reference = audioPlaybackEngine.getRecentOutput(
+    length / SAMPLE_RATE + MAX_ECHO_DELAY_S,
+    SAMPLE_RATE,
+  );
+  if (!reference) return false;
+
+  const mic = new Float32Array(length);
+  frames.reduce((offset, frame) => {
+    mic.set(frame, offset);
+    return offset + frame.length;
+  }, 0);
+  return echoSimilarity(mic, reference) >= ECHO_CORRELATION_THRESHOLD;
+}
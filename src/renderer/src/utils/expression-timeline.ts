@@ -0,0 +1,96 @@
+/**
+ * Expressions of one sentence, applied as playback reaches them
+ */
+import { Live2DModel } from 'pixi-live2d-display-lipsyncpatch';
+
+export type ExpressionRef = string | number;
+
+interface ExpressionTimelineOptions {
+  // Start of each expression in seconds; spread evenly over the audio when absent
+  offsets?: number[] | null;
+  // Emotion tags to expression names or indices, from ModelInfo.emotionMap
+  emotionMap?: Record<string, ExpressionRef>;
+}
+
+/**
+ * Turn an emotion tag into something the model's expression manager accepts
+ */
+export function resolveExpression(
+  expression: ExpressionRef,
+  emotionMap?: Record<string, ExpressionRef>,
+): ExpressionRef {
+  if (typeof expression !== 'string' || !emotionMap) return expression;
+  return emotionMap[expression] ?? emotionMap[expression.toLowerCase()] ?? expression;
+}
+
+export class ExpressionTimeline {
+  private model: Live2DModel;
+
+  private expressions: ExpressionRef[];
+
+  private offsets: number[] | null;
+
+  private applied = -1;
+
+  constructor(model: Live2DModel, expressions: ExpressionRef[], options: ExpressionTimelineOptions) {
+    this.model = model;
+    this.expressions = expressions.map((expression) => resolveExpression(
+      expression,
+      options.emotionMap,
+    ));
+    // Offsets only count if there is one per expression
+    this.offsets = options.offsets?.length === expressions.length ? options.offsets : null;
+  }
+
+  get isEmpty(): boolean {
+    return this.expressions.length === 0;
+  }
+
+  /**
+   * Apply the expression due at a playback position
+   * @param position - Seconds into the sentence
+   * @param duration - Length of the sentence as known so far, in seconds
+   * @param complete - Whether all of the sentence's audio has arrived
+   */
+  update(position: number, duration: number, complete: boolean) {
+    const due = this.dueIndex(position, duration, complete);
+    if (due <= this.applied) return;
+    this.applied = due;
+    this.apply(this.expressions[due]);
+  }
+
+  /**
+   * Return the model to its neutral expression
+   */
+  reset() {
+    this.model.internalModel.motionManager.expressionManager?.resetExpression();
+  }
+
+  private dueIndex(position: number, duration: number, complete: boolean): number {
+    if (this.offsets) {
+      let due = 0;
+      this.offsets.forEach((offset, index) => {
+        if (offset <= position) due = index;
+      });
+      return due;
+    }
+    // A streamed sentence's length is unknown until its last chunk arrives
+    if (!complete || duration <= 0) return 0;
+    const slot = duration / this.expressions.length;
+    return Math.min(this.expressions.length - 1, Math.floor(position / slot));
+  }
+
+  /**
+   * Cross-fades from the previous expression with the fade times in the expression's file
+   */
+  private async apply(expression: ExpressionRef) {
+    const manager = this.model.internalModel.motionManager.expressionManager;
+    if (!manager) return;
+
+    try {
+      await manager.setExpression(expression);
+    } catch (error) {
+      console.error('Failed to set expression:', expression, error);
+    }
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Capture still frames from live video streams
+ */
+
+// One playing video element per stream, so repeated captures are instant
+const videoCache = new WeakMap<MediaStream, HTMLVideoElement>();
+
+// A stream that delivers no frame by then is given up on, so sending never stalls
+const CAPTURE_TIMEOUT_MS = 2000;
+
+async function getPlayingVideo(stream: MediaStream): Promise<HTMLVideoElement> {
+  let video = videoCache.get(stream);
+  if (!video) {
+    video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+    videoCache.set(stream, video);
+  }
+
+  if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
+    const pending = video;
+    await new Promise<void>((resolve, reject) => {
+      pending.onloadeddata = () => resolve();
+      pending.onerror = () => reject(new Error('Failed to load video stream'));
+    });
+  }
+  if (video.paused) {
+    await video.play();
+  }
+  return video;
+}
+
+/**
+ * Grab the current frame of a stream as a JPEG data URL, downscaled to fit
+ * @param stream - Camera or screen capture stream
+ * @param maxSize - Maximum length of the longer edge, in pixels
+ * @param quality - JPEG quality between 0 and 1
+ * @returns Data URL, or null if the stream has no live video track
+ * @throws If the stream delivers no frame in time
+ */
+export async function captureJpegFrame(
+  stream: MediaStream,
+  maxSize: number,
+  quality: number,
+): Promise<string | null> {
+  const track = stream.getVideoTracks()[0];
+  if (!track || track.readyState !== 'live') return null;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('Timed out waiting for a video frame')), CAPTURE_TIMEOUT_MS);
+  });
+  const video = await Promise.race([getPlayingVideo(stream), timeout])
+    .finally(() => clearTimeout(timer));
+  const { videoWidth, videoHeight } = video;
+  if (!videoWidth || !videoHeight) return null;
+
+  const scale = Math.min(1, maxSize / Math.max(videoWidth, videoHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(videoWidth * scale);
+  canvas.height = Math.round(videoHeight * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+}
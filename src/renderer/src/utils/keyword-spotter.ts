@@ -0,0 +1,253 @@
+/**
+ * Small template-based keyword spotter for 16 kHz mono audio.
+ * The user records the wake word a few times; utterances are compared
+ * against those recordings by MFCC features and dynamic time warping.
+ */
+
+const SAMPLE_RATE = 16000;
+
+// 25 ms analysis windows every 10 ms
+const FRAME_SAMPLES = 400;
+const HOP_SAMPLES = 160;
+const FFT_SIZE = 512;
+
+const MEL_FILTERS = 26;
+// c0 only carries loudness, which says nothing about the word
+const CEPSTRAL_COEFFICIENTS = 12;
+const MIN_FREQUENCY = 100;
+const MAX_FREQUENCY = 7600;
+
+// Accept a little more than the spread between the user's own recordings
+const THRESHOLD_MARGIN = 1.25;
+
+// Blocks quieter than this share of the loudest one are trimmed off recordings
+const TRIM_RELATIVE_RMS = 0.1;
+
+/** MFCC frames, one array of coefficients per 10 ms */
+export type Features = number[][];
+
+const hzToMel = (hz: number): number => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number): number => 700 * (10 ** (mel / 2595) - 1);
+
+const hammingWindow = Float64Array.from(
+  { length: FRAME_SAMPLES },
+  (_, i) => 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (FRAME_SAMPLES - 1)),
+);
+
+// Triangular filters as [first bin, weights]
+const melFilterbank: [number, number[]][] = (() => {
+  const bins = FFT_SIZE / 2 + 1;
+  const minMel = hzToMel(MIN_FREQUENCY);
+  const maxMel = hzToMel(MAX_FREQUENCY);
+  const centers = Array.from(
+    { length: MEL_FILTERS + 2 },
+    (_, i) => Math.floor(((FFT_SIZE + 1) * melToHz(minMel + ((maxMel - minMel) * i) / (MEL_FILTERS + 1)))
+      / SAMPLE_RATE),
+  );
+  return Array.from({ length: MEL_FILTERS }, (_, m) => {
+    const [left, center, right] = [centers[m], centers[m + 1], centers[m + 2]];
+    const weights: number[] = [];
+    for (let bin = left; bin <= Math.min(right, bins - 1); bin += 1) {
+      if (bin < center) weights.push((bin - left) / Math.max(1, center - left));
+      else weights.push((right - bin) / Math.max(1, right - center));
+    }
+    return [left, weights];
+  });
+})();
+
+const dctMatrix = Array.from(
+  { length: CEPSTRAL_COEFFICIENTS },
+  (_, k) => Float64Array.from(
+    { length: MEL_FILTERS },
+    (__, n) => Math.cos((Math.PI * (k + 1) * (n + 0.5)) / MEL_FILTERS),
+  ),
+);
+
+/* eslint-disable no-bitwise, no-param-reassign -- bit reversal on buffers reused per frame */
+/**
+ * In-place radix-2 FFT
+ */
+function fft(real: Float64Array, imag: Float64Array): void {
+  const n = real.length;
+  for (let i = 1, j = 0; i < n; i += 1) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k += 1) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = real[b] * cos - imag[b] * sin;
+        const ti = real[b] * sin + imag[b] * cos;
+        real[b] = real[a] - tr;
+        imag[b] = imag[a] - ti;
+        real[a] += tr;
+        imag[a] += ti;
+      }
+    }
+  }
+}
+/* eslint-enable no-bitwise, no-param-reassign */
+
+/**
+ * MFCC frames of the audio. Without c0 they do not depend on loudness; no
+ * mean normalisation, as the wake word is a short part of longer utterances.
+ */
+export function extractFeatures(audio: Float32Array): Features {
+  const frames: Features = [];
+  const real = new Float64Array(FFT_SIZE);
+  const imag = new Float64Array(FFT_SIZE);
+
+  for (let start = 0; start + FRAME_SAMPLES <= audio.length; start += HOP_SAMPLES) {
+    real.fill(0);
+    imag.fill(0);
+    for (let i = 0; i < FRAME_SAMPLES; i += 1) {
+      const previous = start + i > 0 ? audio[start + i - 1] : 0;
+      real[i] = (audio[start + i] - 0.97 * previous) * hammingWindow[i];
+    }
+    fft(real, imag);
+
+    const energies = melFilterbank.map(([first, weights]) => {
+      const energy = weights.reduce((sum, weight, i) => {
+        const bin = first + i;
+        return sum + weight * (real[bin] * real[bin] + imag[bin] * imag[bin]);
+      }, 0);
+      return Math.log(Math.max(energy, 1e-10));
+    });
+    frames.push(dctMatrix.map((row) => row.reduce((sum, cos, n) => sum + cos * energies[n], 0)));
+  }
+
+  // Three decimals keep stored templates small without changing matches
+  return frames.map((frame) => frame.map((value) => Math.round(value * 1000) / 1000));
+}
+
+const frameDistance = (a: number[], b: number[]): number => Math.sqrt(
+  a.reduce((sum, value, k) => sum + (value - b[k]) ** 2, 0),
+);
+
+/**
+ * Best match of the template anywhere in the utterance, by subsequence DTW
+ * @returns Path-normalised distance and the utterance frame where the match ends
+ */
+function matchTemplate(utterance: Features, template: Features): { distance: number; end: number } {
+  const columns = template.length;
+  // Accumulated cost and path length of the best path into each template frame
+  let previousCost = new Float64Array(columns).fill(Infinity);
+  let previousLength = new Float64Array(columns);
+  let best = { distance: Infinity, end: -1 };
+
+  utterance.forEach((frame, i) => {
+    const cost = new Float64Array(columns);
+    const length = new Float64Array(columns);
+    for (let j = 0; j < columns; j += 1) {
+      const local = frameDistance(frame, template[j]);
+      if (j === 0) {
+        // The match may start at any frame of the utterance
+        cost[j] = local;
+        length[j] = 1;
+      } else {
+        const options: [number, number][] = [
+          [previousCost[j - 1], previousLength[j - 1]],
+          [previousCost[j], previousLength[j]],
+          [cost[j - 1], length[j - 1]],
+        ];
+        const [bestCost, bestLength] = options.reduce((a, b) => (
+          a[0] / Math.max(1, a[1]) <= b[0] / Math.max(1, b[1]) ? a : b
+        ));
+        cost[j] = bestCost + local;
+        length[j] = bestLength + 1;
+      }
+    }
+    const distance = cost[columns - 1] / length[columns - 1];
+    if (distance < best.distance) best = { distance, end: i };
+    previousCost = cost;
+    previousLength = length;
+  });
+
+  return best;
+}
+
+/**
+ * Drop the silence around a recording, e.g. the VAD's pre-speech padding
+ */
+export function trimSilence(audio: Float32Array): Float32Array {
+  const blocks = Math.floor(audio.length / HOP_SAMPLES);
+  const rms = Array.from({ length: blocks }, (_, block) => {
+    let sumSquares = 0;
+    for (let i = block * HOP_SAMPLES; i < (block + 1) * HOP_SAMPLES; i += 1) {
+      sumSquares += audio[i] * audio[i];
+    }
+    return Math.sqrt(sumSquares / HOP_SAMPLES);
+  });
+  const floor = Math.max(...rms, 0) * TRIM_RELATIVE_RMS;
+  const first = rms.findIndex((value) => value > floor);
+  if (first === -1) return audio;
+  let last = blocks - 1;
+  while (last > first && rms[last] <= floor) last -= 1;
+  // Keep 50 ms either side so soft consonants survive
+  const margin = 5 * HOP_SAMPLES;
+  return audio.subarray(
+    Math.max(0, first * HOP_SAMPLES - margin),
+    Math.min(audio.length, (last + 1) * HOP_SAMPLES + margin),
+  );
+}
+
+/**
+ * Templates and acceptance threshold learned from recordings of the wake word
+ * @param recordings - At least two recordings of the phrase
+ */
+export function createWakeWordModel(recordings: Float32Array[]): { templates: Features[]; threshold: number } {
+  const templates = recordings
+    .map((recording) => extractFeatures(trimSilence(recording)))
+    .filter((features) => features.length > 0);
+  let spread = 0;
+  templates.forEach((template, i) => {
+    templates.slice(i + 1).forEach((other) => {
+      spread = Math.max(spread, matchTemplate(template, other).distance);
+    });
+  });
+  return { templates, threshold: spread * THRESHOLD_MARGIN };
+}
+
+/**
+ * Finds the wake word in utterances
+ */
+export class KeywordSpotter {
+  private templates: Features[];
+
+  private threshold: number;
+
+  constructor(templates: Features[], threshold: number) {
+    this.templates = templates;
+    this.threshold = threshold;
+  }
+
+  get isReady(): boolean {
+    return this.templates.length > 0 && this.threshold > 0;
+  }
+
+  /**
+   * Look for the wake word in an utterance
+   * @returns Sample index right after the wake word, or null if it was not said
+   */
+  detect(audio: Float32Array): { end: number } | null {
+    if (!this.isReady) return null;
+    const features = extractFeatures(audio);
+    if (features.length === 0) return null;
+
+    const best = this.templates
+      .map((template) => matchTemplate(features, template))
+      .reduce((a, b) => (a.distance <= b.distance ? a : b));
+    if (best.distance > this.threshold) return null;
+    return { end: Math.min(audio.length, best.end * HOP_SAMPLES + FRAME_SAMPLES) };
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Mouth movement for the sentence being spoken, from the server's volume envelope
+ */
+
+/**
+ * Loudness of a sentence, one value between 0 and 1 per slice
+ * @interface VolumeEnvelope
+ */
+export interface VolumeEnvelope {
+  volumes: number[];
+  // Slice length in milliseconds
+  sliceLength: number;
+}
+
+let currentEnvelope: VolumeEnvelope | null = null;
+
+/**
+ * Set the envelope of the sentence about to play, or null when it ends
+ */
+export function setLipSyncEnvelope(envelope: VolumeEnvelope | null) {
+  currentEnvelope = envelope && envelope.volumes.length > 0 && envelope.sliceLength > 0
+    ? envelope
+    : null;
+}
+
+/**
+ * Loudness of the current sentence at a playback position
+ * @param position - Seconds into the sentence
+ * @returns Loudness between 0 and 1, or null without an envelope
+ */
+export function sampleLipSyncEnvelope(position: number): number | null {
+  if (!currentEnvelope) return null;
+  const { volumes, sliceLength } = currentEnvelope;
+
+  // Interpolate between slice centres so the mouth does not step
+  const slice = (position * 1000) / sliceLength - 0.5;
+  if (slice >= volumes.length - 1) return slice < volumes.length ? volumes[volumes.length - 1] : 0;
+  if (slice <= 0) return volumes[0];
+  const index = Math.floor(slice);
+  const fraction = slice - index;
+  return volumes[index] * (1 - fraction) + volumes[index + 1] * fraction;
+}
@@ -0,0 +1,31 @@
+/**
+ * Typings for the Live2D model's update events
+ */
+import { Live2DModel } from 'pixi-live2d-display-lipsyncpatch';
+
+type ModelUpdateEvent = 'beforeModelUpdate';
+
+/**
+ * The part of InternalModel's EventEmitter the app listens to; the library
+ * extends an EventEmitter whose typings do not resolve
+ */
+export interface ModelUpdateEmitter {
+  on(event: ModelUpdateEvent, listener: () => void): this;
+  off(event: ModelUpdateEvent, listener: () => void): this;
+}
+
+declare module 'pixi-live2d-display-lipsyncpatch' {
+  interface InternalModel extends ModelUpdateEmitter {}
+}
+
+/**
+ * Run a listener before every update of the model, once its motions are applied
+ * @returns Function that removes the listener
+ */
+export function onBeforeModelUpdate(model: Live2DModel, listener: () => void): () => void {
+  const { internalModel } = model;
+  internalModel.on('beforeModelUpdate', listener);
+  return () => {
+    internalModel.off('beforeModelUpdate', listener);
+  };
+}
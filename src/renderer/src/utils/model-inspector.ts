@@ -0,0 +1,95 @@
+/**
+ * What a loaded Live2D model offers, for setting up its ModelInfo
+ */
+import { Cubism4InternalModel, Live2DModel } from 'pixi-live2d-display-lipsyncpatch';
+import { ModelInfo } from '@/context/live2d-config-context';
+
+export interface MotionGroupInfo {
+  name: string;
+  count: number;
+}
+
+export interface ParameterInfo {
+  id: string;
+  min: number;
+  max: number;
+  default: number;
+}
+
+/**
+ * Motion groups, expressions, hit areas and parameters of a model
+ * @interface ModelInspection
+ */
+export interface ModelInspection {
+  motionGroups: MotionGroupInfo[];
+  // Expression names in definition order, so the index is the expression index
+  expressions: string[];
+  hitAreas: string[];
+  // Null for Cubism 2 models, whose parameters cannot be listed
+  parameters: ParameterInfo[] | null;
+}
+
+// Cubism 2 uses lowercase keys in model.json, Cubism 3+ capitalised ones
+interface ExpressionDefinition {
+  Name?: string;
+  name?: string;
+}
+
+// ModelInfo fields the server reads from model_dict.json
+const MODEL_DICT_KEYS: (keyof ModelInfo)[] = [
+  'name',
+  'description',
+  'url',
+  'kScale',
+  'initialXshift',
+  'initialYshift',
+  'idleMotionGroupName',
+  'emotionMap',
+  'tapMotions',
+];
+
+export function inspectModel(model: Live2DModel): ModelInspection {
+  const { internalModel } = model;
+  const { motionManager } = internalModel;
+
+  const motionGroups = Object.entries(motionManager.definitions)
+    .map(([name, motions]) => ({ name, count: motions?.length ?? 0 }));
+
+  const definitions: ExpressionDefinition[] = motionManager.expressionManager?.definitions ?? [];
+  const expressions = definitions.map((definition) => definition.Name ?? definition.name ?? '');
+
+  const hitAreas = Object.keys(internalModel.hitAreas);
+
+  let parameters: ParameterInfo[] | null = null;
+  if (internalModel instanceof Cubism4InternalModel) {
+    const core = internalModel.coreModel.getModel().parameters;
+    parameters = Array.from(core.ids, (id, index) => ({
+      id,
+      min: core.minimumValues[index],
+      max: core.maximumValues[index],
+      default: core.defaultValues[index],
+    }));
+  }
+
+  return {
+    motionGroups, expressions, hitAreas, parameters,
+  };
+}
+
+/**
+ * Format a ModelInfo as an entry for the server's model_dict.json
+ * @param modelInfo - Model to export
+ * @param baseUrl - Server URL that set-model prefixed to the model path
+ */
+export function buildModelDictEntry(modelInfo: ModelInfo, baseUrl: string): string {
+  const entry: Partial<Record<keyof ModelInfo, unknown>> = {};
+  MODEL_DICT_KEYS.forEach((key) => {
+    if (modelInfo[key] !== undefined) entry[key] = modelInfo[key];
+  });
+
+  if (baseUrl && modelInfo.url.startsWith(baseUrl)) {
+    entry.url = modelInfo.url.slice(baseUrl.length);
+  }
+
+  return JSON.stringify(entry, null, 2);
+}
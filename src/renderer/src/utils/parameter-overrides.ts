@@ -0,0 +1,109 @@
+/**
+ * Live2D parameters held at values set from outside the model's own motions
+ */
+import { Cubism4InternalModel, Live2DModel } from 'pixi-live2d-display-lipsyncpatch';
+
+/**
+ * Target value of one Live2D parameter
+ * @interface ParameterTarget
+ */
+export interface ParameterTarget {
+  id: string;
+  value: number;
+}
+
+interface ParameterOverride {
+  from: number;
+  to: number;
+  start: number;
+  tween: number;
+  // When the override starts fading back to the model's motions
+  releaseAt: number;
+}
+
+const easeInOut = (progress: number) => (progress < 0.5
+  ? 2 * progress * progress
+  : 1 - ((-2 * progress + 2) ** 2) / 2);
+
+export class ParameterOverrides {
+  private model: Live2DModel;
+
+  private overrides = new Map<string, ParameterOverride>();
+
+  constructor(model: Live2DModel) {
+    this.model = model;
+  }
+
+  /**
+   * Parameters are set by id only on Cubism 4 models
+   */
+  private get coreModel(): Cubism4InternalModel['coreModel'] | null {
+    const { internalModel } = this.model;
+    return internalModel instanceof Cubism4InternalModel ? internalModel.coreModel : null;
+  }
+
+  /**
+   * Tween parameters to new values and hold them
+   * @param targets - Parameters and the values to reach
+   * @param tween - Time to reach the values, and to let go of them, in ms
+   * @param duration - Time to hold the values once reached in ms, or null to hold until released
+   */
+  set(targets: ParameterTarget[], tween: number, duration: number | null) {
+    const { coreModel } = this;
+    if (!coreModel) {
+      console.warn('Setting parameters is only supported on Cubism 4 models');
+      return;
+    }
+    const now = performance.now();
+    targets.forEach(({ id, value }) => {
+      this.overrides.set(id, {
+        // Start from what is on screen, which may be an earlier override
+        from: coreModel.getParameterValueById(id),
+        to: value,
+        start: now,
+        tween,
+        releaseAt: duration === null ? Infinity : now + tween + duration,
+      });
+    });
+  }
+
+  /**
+   * Fade every override back to the model's motions
+   * @param tween - Fade time in ms
+   */
+  release(tween: number) {
+    const now = performance.now();
+    this.overrides.forEach((override) => {
+      // eslint-disable-next-line no-param-reassign
+      override.tween = tween;
+      // eslint-disable-next-line no-param-reassign
+      override.releaseAt = Math.min(override.releaseAt, now);
+    });
+  }
+
+  /**
+   * Write the overrides into the model; call after motions, before the model update
+   */
+  apply() {
+    const { coreModel } = this;
+    if (this.overrides.size === 0 || !coreModel) return;
+    const now = performance.now();
+
+    this.overrides.forEach((override, id) => {
+      const {
+        from, to, start, tween, releaseAt,
+      } = override;
+      if (now >= releaseAt) {
+        const weight = tween > 0 ? 1 - (now - releaseAt) / tween : 0;
+        if (weight <= 0) {
+          this.overrides.delete(id);
+          return;
+        }
+        coreModel.setParameterValueById(id, to, weight);
+        return;
+      }
+      const progress = tween > 0 ? Math.min(1, (now - start) / tween) : 1;
+      coreModel.setParameterValueById(id, from + (to - from) * easeInOut(progress));
+    });
+  }
+}
@@ -0,0 +1,73 @@
+import { VADSettings } from '@/context/vad-context';
+
+/**
+ * Settings the calibration measures; the barge-in threshold is left alone
+ */
+export type CalibratedSettings = Pick<
+  VADSettings,
+  'positiveSpeechThreshold' | 'negativeSpeechThreshold' | 'redemptionFrames'
+>;
+
+/**
+ * Value below which the given fraction of the samples fall
+ */
+function percentile(values: number[], fraction: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.floor(fraction * sorted.length));
+  return sorted[index];
+}
+
+const clamp = (value: number, min: number, max: number): number => Math.min(Math.max(value, min), max);
+
+/**
+ * Longest run of frames below the threshold between two frames above it,
+ * i.e. the longest pause inside a sentence
+ */
+function longestPause(probabilities: number[], threshold: number): number {
+  let longest = 0;
+  let current = 0;
+  let spoken = false;
+  probabilities.forEach((probability) => {
+    if (probability >= threshold) {
+      if (spoken) longest = Math.max(longest, current);
+      spoken = true;
+      current = 0;
+    } else {
+      current += 1;
+    }
+  });
+  return longest;
+}
+
+/**
+ * Suggest VAD settings from speech probabilities recorded in silence and while
+ * the user read sample sentences
+ * @param noise - Frame probabilities of the room without speech
+ * @param samples - Frame probabilities of each sample utterance
+ * @returns Settings in the units of VADSettings, or null if speech and noise cannot be told apart
+ */
+export function suggestVADSettings(
+  noise: number[],
+  samples: number[][],
+): CalibratedSettings | null {
+  const recorded = samples.filter((sample) => sample.length > 0);
+  if (noise.length === 0 || recorded.length === 0) return null;
+
+  // Loudest the room gets, ignoring the odd click
+  const noiseCeiling = percentile(noise, 0.95);
+  // How confident the VAD is during clear speech, typical over the samples
+  const speechLevel = percentile(recorded.map((sample) => percentile(sample, 0.9)), 0.5);
+  if (speechLevel - noiseCeiling < 0.1) return null;
+
+  const positive = noiseCeiling + (speechLevel - noiseCeiling) * 0.6;
+  const negative = Math.max(0.05, noiseCeiling + (positive - noiseCeiling) * 0.3);
+  const pause = Math.max(...recorded.map((sample) => longestPause(sample, negative)));
+
+  return {
+    positiveSpeechThreshold: clamp(Math.round(positive * 100), 1, 99),
+    negativeSpeechThreshold: clamp(Math.round(negative * 100), 0, Math.round(positive * 100) - 1),
+    // Outlast the pauses between words so a sentence is not cut in two
+    redemptionFrames: clamp(pause + 3, 8, 30),
+  };
+}